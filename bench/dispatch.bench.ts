@@ -0,0 +1,48 @@
+import { bench, describe } from "vitest";
+import { createStore } from "../src/index";
+
+type Row = { id: number; value: number };
+type State = { rows: Row[]; other: number };
+
+function setup(count: number) {
+  const store = createStore<State>({
+    rows: Array.from({ length: count }, (_, id) => ({ id, value: 0 })),
+    other: 0,
+  });
+  for (let i = 0; i < count; i++) {
+    store.subscribe(
+      (root) => root.rows[i]!.value,
+      () => {},
+    );
+  }
+  return store;
+}
+
+for (const count of [100, 1_000, 10_000]) {
+  describe(`${count} subscriptions`, () => {
+    const store = setup(count);
+    let n = 0;
+
+    bench("write one row", () => {
+      store.root.rows[n++ % count]!.value = n;
+    });
+
+    bench("write an unrelated path", () => {
+      store.root.other = n++;
+    });
+
+    bench("push and remove a row", () => {
+      store.root.rows.push({ id: count, value: n++ });
+      store.root.rows.splice(count, 1);
+    });
+
+    bench("write every row in apply()", () => {
+      store.apply((root) => {
+        n++;
+        for (let i = 0; i < count; i++) {
+          root.rows[i]!.value = n;
+        }
+      });
+    });
+  });
+}
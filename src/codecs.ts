@@ -0,0 +1,90 @@
+/**
+ * Describes how values of a type the store does not support natively are validated, copied and sent over the wire.
+ * A value the codec's `test` accepts is stored as is, copied with `clone` by `snapshot()`, and replaced by
+ * `{ $codec: name, value: encode(value) }` in the changes passed to `subscribeToChanges`. `applyChanges` decodes
+ * such values again.
+ */
+export interface ValueCodec<V = unknown, E = unknown> {
+  /** Identifies encoded values. Must be unique among the codecs of a store. */
+  name: string;
+  /** Returns `true` for values this codec handles. */
+  test(value: unknown): value is V;
+  /** Converts a value into serializable data. */
+  encode(value: V): E;
+  /** Restores a value from the data produced by `encode`. */
+  decode(data: E): V;
+  /** Copies a value for `snapshot()`. Defaults to `decode(encode(value))`. */
+  clone?(value: V): V;
+}
+
+/** Stores valid `Date` instances, encoded as ISO 8601 strings. */
+export const dateCodec: ValueCodec<Date, string> = {
+  name: "Date",
+  test: (value): value is Date => value instanceof Date && !Number.isNaN(value.getTime()),
+  encode: (value) => value.toISOString(),
+  decode: (data) => new Date(data),
+  clone: (value) => new Date(value.getTime()),
+};
+
+/** Stores `bigint` values, encoded as decimal strings. */
+export const bigintCodec: ValueCodec<bigint, string> = {
+  name: "BigInt",
+  test: (value): value is bigint => typeof value === "bigint",
+  encode: (value) => value.toString(),
+  decode: (data) => BigInt(data),
+  clone: (value) => value,
+};
+
+export function findCodec(value: unknown, codecs: readonly ValueCodec[]): ValueCodec | undefined {
+  for (const codec of codecs) {
+    if (codec.test(value)) return codec;
+  }
+  return undefined;
+}
+
+// Plain objects that could be mistaken for an encoded value are wrapped in `$object`
+function needsEscape(value: object): boolean {
+  const keys = Object.keys(value);
+  return "$codec" in value || (keys.length === 1 && keys[0] === "$object");
+}
+
+/** Replaces every value handled by one of `codecs` with its encoded form. Returns a copy; `value` is untouched. */
+export function encodeValue(value: unknown, codecs: readonly ValueCodec[]): unknown {
+  const codec = findCodec(value, codecs);
+  if (codec) return { $codec: codec.name, value: codec.encode(value) };
+  if (value === null || typeof value !== "object") return value;
+  if (Array.isArray(value)) return value.map((item) => encodeValue(item, codecs));
+  if (value instanceof Map) return new Map([...value].map(([key, item]) => [key, encodeValue(item, codecs)]));
+  if (value instanceof Set) return new Set(value);
+
+  const encoded: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    encoded[key] = encodeValue(item, codecs);
+  }
+  return needsEscape(value) ? { $object: encoded } : encoded;
+}
+
+/** Reverses `encodeValue`. Throws if a value was encoded by a codec that is not in `codecs`. */
+export function decodeValue(value: unknown, codecs: readonly ValueCodec[]): unknown {
+  if (value === null || typeof value !== "object") return value;
+  if (Array.isArray(value)) return value.map((item) => decodeValue(item, codecs));
+  if (value instanceof Map) return new Map([...value].map(([key, item]) => [key, decodeValue(item, codecs)]));
+  if (value instanceof Set) return new Set(value);
+
+  const record = value as Record<string, unknown>;
+  if ("$codec" in record) {
+    const codec = codecs.find((candidate) => candidate.name === record.$codec);
+    if (!codec) {
+      throw new Error(`Cannot decode value: no codec named "${String(record.$codec)}" is registered.`);
+    }
+    return codec.decode(record.value);
+  }
+  const keys = Object.keys(record);
+  const entries = keys.length === 1 && keys[0] === "$object" ? (record.$object as Record<string, unknown>) : record;
+
+  const decoded: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(entries)) {
+    decoded[key] = decodeValue(item, codecs);
+  }
+  return decoded;
+}
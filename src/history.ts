@@ -0,0 +1,191 @@
+import { encodeValue } from "./codecs";
+import type { Change, ChangeMeta, Store } from "./index";
+import { invertChanges, recordInverseData } from "./invert";
+import { normalizeChange, normalizeOnto, transformChanges } from "./rebase";
+import { cloneValue } from "./utils";
+
+export interface HistoryOptions {
+  /** Maximum number of undo steps kept. Oldest steps are dropped first. Defaults to 100. */
+  maxDepth?: number;
+}
+
+export interface HistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export interface History {
+  readonly canUndo: boolean;
+  readonly canRedo: boolean;
+  /** Reverts the most recent local change batch. Returns `false` if there is nothing to undo. */
+  undo(): boolean;
+  /** Re-applies the most recently undone batch. Returns `false` if there is nothing to redo. */
+  redo(): boolean;
+  /** Subscribe to `canUndo`/`canRedo`. Called immediately and whenever either flag changes. */
+  subscribe(callback: (state: HistoryState) => void): () => void;
+  clear(): void;
+  dispose(): void;
+}
+
+// Both sides are normalized (see `normalizeChanges`), so they can be transformed against remote batches
+interface HistoryEntry {
+  undo: Change[];
+  redo: Change[];
+}
+
+/**
+ * Tracks local change batches of a store and allows undoing and redoing them.
+ * Every batch emitted by `subscribeToChanges` (a single write or a whole `apply()` transaction) is one step. Batches
+ * are recorded once committed, so a batch that a change subscriber rejects leaves no step behind.
+ * Batches replayed through `applyChanges()` are treated as remote: they are not recorded, and the recorded steps are
+ * rebased onto them with `transformChanges`, so undo and redo keep their own edits but never overwrite a remote one.
+ */
+export function createHistory<T extends object>(store: Store<T>, options: HistoryOptions = {}): History {
+  const maxDepth = options.maxDepth ?? 100;
+  const undoStack: HistoryEntry[] = [];
+  const redoStack: HistoryEntry[] = [];
+  const listeners = new Set<(state: HistoryState) => void>();
+
+  // Copy of the state as of the last seen batch, used to compute inverse changes. Kept in the encoded form that
+  // emitted changes use, so values handled by codecs compare and copy as plain data.
+  const shadow = encodeValue(store.snapshot(), store.codecs) as object;
+  let isReplaying = false;
+  let lastState = getState();
+
+  function getState(): HistoryState {
+    return { canUndo: undoStack.length > 0, canRedo: redoStack.length > 0 };
+  }
+
+  function notify(): void {
+    const state = getState();
+    if (state.canUndo === lastState.canUndo && state.canRedo === lastState.canRedo) return;
+    lastState = state;
+    for (const listener of listeners) {
+      listener(state);
+    }
+  }
+
+  /** Applies a local batch to the shadow and returns it as a step. */
+  function record(changes: Change[]): HistoryEntry {
+    const redo: Change[] = [];
+    const annotated: Change[] = [];
+    for (const change of changes) {
+      const normalized = cloneValue(normalizeChange(shadow, change));
+      redo.push(...normalized);
+      annotated.push(...recordInverseData(shadow, normalized));
+    }
+    return { undo: invertChanges(annotated), redo };
+  }
+
+  /**
+   * Transforms the steps so they apply on top of `remote`, a normalized batch applied to the state both stacks' newest
+   * steps apply to. The remote batch wins where both write the same path; steps left with nothing to do are dropped.
+   */
+  function rebase(remote: Change[]): void {
+    const options = { winner: "remote" } as const;
+    const rebaseStack = (stack: HistoryEntry[], first: "undo" | "redo") => {
+      const second = first === "undo" ? "redo" : "undo";
+      let concurrent = remote;
+      // Newest first: each step's first side applies where the remote batch, as transformed so far, does
+      for (let i = stack.length - 1; i >= 0 && concurrent.length > 0; i--) {
+        const entry = stack[i]!;
+        const [afterFirst, firstSide] = transformChanges(concurrent, entry[first], options);
+        const [, secondSide] = transformChanges(afterFirst, entry[second], options);
+        concurrent = afterFirst;
+        if (firstSide.length === 0) {
+          stack.splice(i, 1);
+        } else {
+          stack[i] = first === "undo" ? { undo: firstSide, redo: secondSide } : { undo: secondSide, redo: firstSide };
+        }
+      }
+    };
+    rebaseStack(undoStack, "undo");
+    rebaseStack(redoStack, "redo");
+  }
+
+  function onChanges(changes: Change[], meta: ChangeMeta): void {
+    if (isReplaying) {
+      normalizeOnto(shadow, changes);
+      return;
+    }
+
+    if (meta.source === "remote") {
+      rebase(normalizeOnto(shadow, cloneValue(changes)));
+    } else {
+      undoStack.push(record(changes));
+      if (undoStack.length > maxDepth) {
+        undoStack.splice(0, undoStack.length - maxDepth);
+      }
+      redoStack.length = 0;
+    }
+    notify();
+  }
+
+  function replay(changes: Change[]): void {
+    isReplaying = true;
+    try {
+      store.applyChanges(cloneValue(changes));
+    } finally {
+      isReplaying = false;
+    }
+  }
+
+  const unsubscribe = store.subscribeToChanges(onChanges, { afterCommit: true });
+
+  return {
+    get canUndo(): boolean {
+      return undoStack.length > 0;
+    },
+
+    get canRedo(): boolean {
+      return redoStack.length > 0;
+    },
+
+    undo(): boolean {
+      const entry = undoStack.pop();
+      if (!entry) return false;
+      try {
+        replay(entry.undo);
+      } catch (e) {
+        undoStack.push(entry);
+        throw e;
+      }
+      redoStack.push(entry);
+      notify();
+      return true;
+    },
+
+    redo(): boolean {
+      const entry = redoStack.pop();
+      if (!entry) return false;
+      try {
+        replay(entry.redo);
+      } catch (e) {
+        redoStack.push(entry);
+        throw e;
+      }
+      undoStack.push(entry);
+      notify();
+      return true;
+    },
+
+    subscribe(callback: (state: HistoryState) => void): () => void {
+      listeners.add(callback);
+      callback(getState());
+      return () => {
+        listeners.delete(callback);
+      };
+    },
+
+    clear(): void {
+      undoStack.length = 0;
+      redoStack.length = 0;
+      notify();
+    },
+
+    dispose(): void {
+      unsubscribe();
+      listeners.clear();
+    },
+  };
+}
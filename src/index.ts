@@ -1,5 +1,68 @@
-type PathSegment = string | symbol;
-type Path = PathSegment[];
+import { decodeValue, encodeValue, findCodec, type ValueCodec } from "./codecs";
+import {
+  getArrayInverseData,
+  getCollectionInverseData,
+  getPropertyInverseData,
+  invertChanges,
+  recordInverseData,
+} from "./invert";
+import { fromJsonPatch, type JsonPatchOperation } from "./jsonPatch";
+import { createPathIndex } from "./pathIndex";
+import { normalizeOnto, transformChanges } from "./rebase";
+import { schemaAt, type Schema } from "./schema";
+import { createReadonlyStore } from "./readonly";
+import { createScope } from "./scope";
+import { assertCollectionKey, assertSerializable } from "./serializable";
+import {
+  applyChangeTo,
+  cloneValue,
+  type CollectionKey,
+  createCollectionRollback,
+  createRollback,
+  getChangedPath,
+  getLeafPaths,
+  getStoredValue,
+  getValueAtPath,
+  isCollectionKey,
+  isPathAffected,
+  isPlainObject,
+  joinPath,
+  keyToSegment,
+  normalizeIndex,
+  pathToString,
+  type Path,
+  splitPath,
+  WHOLE_VALUE,
+} from "./utils";
+
+export { encodePath, decodePath, shallowEqual, deepEqual } from "./utils";
+export type { CollectionKey } from "./utils";
+export { serialize, deserialize } from "./serialize";
+export { dateCodec, bigintCodec, encodeValue, decodeValue } from "./codecs";
+export type { ValueCodec } from "./codecs";
+export { persist, MigrationError, createMemoryAdapter, createKeyValueAdapter, createFileAdapter } from "./persist";
+export type { Persistence, PersistOptions, StorageAdapter } from "./persist";
+export { s, StoreValidationError } from "./schema";
+export type { Infer, Schema } from "./schema";
+export { syncStore } from "./sync";
+export type { StoreSync, SyncEndpoint, SyncOptions } from "./sync";
+export { normalizeChanges, rebaseChanges, transformChanges } from "./rebase";
+export type { RebaseOptions } from "./rebase";
+export { createLoopback, createReplicationClient, createReplicationServer } from "./replication";
+export type {
+  LoopbackOptions,
+  ReplicationClient,
+  ReplicationClientOptions,
+  ReplicationConnection,
+  ReplicationMessage,
+  ReplicationServer,
+  ReplicationServerOptions,
+} from "./replication";
+export { createHistory } from "./history";
+export type { History, HistoryOptions, HistoryState } from "./history";
+export { invertChanges } from "./invert";
+export { toJsonPatch, fromJsonPatch } from "./jsonPatch";
+export type { JsonPatchOperation } from "./jsonPatch";
 
 // Serializable type constraint
 export type Serializable =
@@ -9,57 +72,23 @@ export type Serializable =
   | null
   | undefined
   | Serializable[]
+  | Map<CollectionKey, Serializable>
+  | Set<CollectionKey>
   | { [key: string]: Serializable };
 
-const NON_SERIALIZABLE_TYPES: [abstract new (...args: never[]) => unknown, string][] = [
-  [Map, "Map"],
-  [Set, "Set"],
-  [WeakMap, "WeakMap"],
-  [WeakSet, "WeakSet"],
-  [Date, "Date"],
-  [RegExp, "RegExp"],
-  [Promise, "Promise"],
-];
-
-function assertSerializable(value: unknown, path: string): void {
-  if (value === null || value === undefined) return;
-
-  if (typeof value === "function") {
-    throw new Error(
-      `Non-serializable value of type "Function" at path "${path}". ` +
-        `Store only supports plain objects, arrays, and primitives.`,
-    );
-  }
-
-  if (typeof value !== "object") return;
-
-  for (const [Type, name] of NON_SERIALIZABLE_TYPES) {
-    if (value instanceof Type) {
-      throw new Error(
-        `Non-serializable value of type "${name}" at path "${path}". ` +
-          `Store only supports plain objects, arrays, and primitives.`,
-      );
-    }
-  }
-
-  if (Array.isArray(value)) {
-    for (let i = 0; i < value.length; i++) {
-      assertSerializable(value[i], path ? `${path}.${i}` : String(i));
-    }
-  } else {
-    for (const key of Object.keys(value as object)) {
-      assertSerializable((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key);
-    }
-  }
-}
-
 // Change types for different operations
-export type Change = PropertyChange | ArrayChange;
+export type Change = PropertyChange | ArrayChange | MapChange | SetChange;
 
 export interface PropertyChange {
   type: "property";
   path: string;
   value: unknown;
+  /** Value before the change. Only recorded by stores created with `{ invertible: true }`. */
+  oldValue?: unknown;
+  /** Length of the array before a write to its `length` or past its end. Only recorded by invertible stores. */
+  previousLength?: number;
+  /** Elements cut off by shortening an array through its `length`. Only recorded by invertible stores. */
+  removed?: unknown[];
 }
 
 export interface ArrayChange {
@@ -67,72 +96,291 @@ export interface ArrayChange {
   path: string;
   method: string;
   args: unknown[];
+  /** Elements removed by `pop`, `shift` or `splice`. Only recorded by invertible stores. */
+  removed?: unknown[];
+  /** Resolved start index of a `splice`. Only recorded by invertible stores. */
+  index?: number;
+  /** Array contents before `sort`, `reverse`, `fill` or `copyWithin`. Only recorded by invertible stores. */
+  previous?: unknown[];
+}
+
+export interface MapChange {
+  type: "map";
+  path: string;
+  method: "set" | "delete" | "clear";
+  /** `[key, value]` for `set`, `[key]` for `delete`, `[]` for `clear`. */
+  args: unknown[];
+  /** Entries overwritten or removed by the call. Only recorded by invertible stores. */
+  previous?: [unknown, unknown][];
+}
+
+export interface SetChange {
+  type: "set";
+  path: string;
+  method: "add" | "delete" | "clear";
+  /** `[member]` for `add` and `delete`, `[]` for `clear`. */
+  args: unknown[];
+  /** Members already present before an `add`, or removed by `delete` and `clear`. Only recorded by invertible stores. */
+  previous?: unknown[];
+}
+
+/**
+ * Changed paths, each with the first array index below it the change may have affected. Subscriptions to elements
+ * before that index are not notified; `0` notifies everything below the path.
+ */
+type ChangedPaths = Map<string, number>;
+
+interface ComputedState {
+  paths: Set<string>;
+  leafPaths: Set<string>;
+  dirty: boolean;
+  value: unknown;
 }
 
 interface Subscription<T, R> {
+  /** Creation order; subscribers are notified in this order. */
+  id: number;
   selector: (root: T) => R;
   callback: (value: R) => void;
   paths: Set<string>;
+  /** The paths the subscription is registered on in the subscription index. */
+  leafPaths: Set<string>;
   lastValue: R;
+  equals: (a: R, b: R) => boolean;
+}
+
+export interface SubscribeOptions<R> {
+  /** Decides whether a re-evaluated selector result counts as unchanged. Defaults to `Object.is`. */
+  equals?: (a: R, b: R) => boolean;
+  /** Call the callback with the initial value when subscribing. Defaults to `true`. */
+  fireImmediately?: boolean;
+  /** Unsubscribe after the callback has been called once. */
+  once?: boolean;
+}
+
+/** Describes where a batch of changes passed to `subscribeToChanges` came from. */
+export interface ChangeMeta {
+  /** `"local"` for writes through `root`/`apply()`, `"remote"` for batches replayed with `applyChanges()`. */
+  source: "local" | "remote";
+  /** The action that made the changes, for batches written by `store.action()` or `store.asyncAction()`. */
+  action?: { name: string; args: unknown[] };
+}
+
+export type ChangeCallback = (changes: Change[], meta: ChangeMeta) => void;
+
+/** Runs `fn` as a batch of the async action it was passed to, and returns its result. */
+export type ActionRunner = <R>(fn: () => R) => R;
+
+export interface SubscribeToChangesOptions {
+  /**
+   * Call back only once the batch is committed, after every other change subscriber and the subscriptions it
+   * affects have run. Such a callback cannot reject the batch and never sees a batch that is rolled back.
+   */
+  afterCommit?: boolean;
+}
+
+/** A lazily evaluated, cached value derived from store state. */
+export interface Computed<R> {
+  /** The current value. Recomputed on read only if a tracked path changed since the last evaluation. */
+  readonly value: R;
+  subscribe(callback: (value: R) => void, options?: SubscribeOptions<R>): () => void;
+}
+
+/** A tentative update made with `store.optimistic()`, kept on top of confirmed state until it is settled. */
+export interface OptimisticUpdate {
+  /** Makes the update's changes permanent. */
+  commit(): void;
+  /** Undoes the update's changes. Later updates and writes stay in place. */
+  revert(): void;
+}
+
+/**
+ * A draft copy of a store's state, or part of it, created with `store.fork()`. Edits stay in the fork until they are
+ * merged back into the parent store.
+ */
+export interface StoreFork<T> extends Store<T> {
+  /** Whether the fork has changes that were neither merged nor discarded. */
+  readonly isDirty: boolean;
+  /** Subscribe to `isDirty`. Called immediately and whenever it changes. */
+  subscribeToDirty(callback: (isDirty: boolean) => void): () => void;
+  /** Replays the fork's changes into the parent store as one batch, at the forked path. */
+  merge(): void;
+  /** Drops the fork's changes and resets it to the parent's current state at the forked path. */
+  discard(): void;
 }
 
-interface Store<T> {
+export interface MiddlewareContext<T> {
+  /** The store's root, for reading the current state. */
   root: T;
+  /** `"local"` for writes through `root`/`apply()`, `"remote"` for changes passed to `applyChanges()`. */
+  source: "local" | "remote";
+}
+
+/**
+ * Intercepts changes before they are applied. Call `next` with the change to let it through, with a rewritten copy
+ * to change it, or more than once to add changes; the changes passed to `next` go through the remaining middleware.
+ * Not calling `next` drops the change, and throwing rejects the write (or the whole transaction it is part of).
+ */
+export type Middleware<T = any> = (
+  change: Change,
+  next: (change: Change) => void,
+  context: MiddlewareContext<T>,
+) => void;
+
+/** A point inside a transaction that later mutations can be rolled back to. */
+export interface Savepoint {
+  /** Undoes every mutation made since the savepoint was created, keeping the transaction open. */
+  rollbackTo(): void;
+}
+
+/** `T` with every property, array, `Map` and `Set` inside it made read-only. */
+export type DeepReadonly<T> = T extends (...args: any[]) => unknown
+  ? T
+  : T extends Map<infer K, infer V>
+    ? ReadonlyMap<K, DeepReadonly<V>>
+    : T extends Set<infer M>
+      ? ReadonlySet<M>
+      : T extends object
+        ? { readonly [K in keyof T]: DeepReadonly<T[K]> }
+        : T;
+
+/** A view of a store that can read and subscribe but not write, created with `store.readonly()`. */
+export interface ReadonlyStore<T> {
+  /** The live state. Writes, deletes and mutating methods throw an error naming the path. */
+  readonly root: DeepReadonly<T>;
+  /** The codecs the store was created with. */
+  readonly codecs: readonly ValueCodec[];
+  snapshot(): T;
+  subscribe<R>(
+    selector: (root: DeepReadonly<T>) => R,
+    callback: (value: R) => void,
+    options?: SubscribeOptions<R>,
+  ): () => void;
+  subscribeToChanges(callback: ChangeCallback, options?: SubscribeToChangesOptions): () => void;
+  computed<R>(selector: (root: DeepReadonly<T>) => R): Computed<R>;
+  effect(fn: (root: DeepReadonly<T>) => void | (() => void)): () => void;
+}
+
+export interface Store<T> {
+  root: T;
+  /** The codecs the store was created with. */
+  readonly codecs: readonly ValueCodec[];
   snapshot(): T;
-  subscribe<R>(selector: (root: T) => R, callback: (value: R) => void): () => void;
-  subscribeToChanges(callback: (changes: Change[]) => void): () => void;
+  subscribe<R>(selector: (root: T) => R, callback: (value: R) => void, options?: SubscribeOptions<R>): () => void;
+  subscribeToChanges(callback: ChangeCallback, options?: SubscribeToChangesOptions): () => void;
+  computed<R>(selector: (root: T) => R): Computed<R>;
+  effect(fn: (root: T) => void | (() => void)): () => void;
   apply(fn: (root: T) => void): void;
   applyChanges(changes: Change[]): void;
+  applyJsonPatch(ops: JsonPatchOperation[]): void;
+  optimistic(fn: (root: T) => void): OptimisticUpdate;
+  fork(): StoreFork<T>;
+  fork<S extends object>(selector: (root: T) => S): StoreFork<S>;
+  /** A view of the object `selector` picks, with change paths relative to it. */
+  scope<S extends object>(selector: (root: T) => S): Store<S>;
+  savepoint(): Savepoint;
+  /** Adds a middleware after the existing ones. Returns a function that removes it. */
+  use(middleware: Middleware<T>): () => void;
+  /** A view of the store without write access, to hand to code that should only read. */
+  readonly(): ReadonlyStore<T>;
+  /**
+   * Wraps `fn` in a function that runs it as one batch, like `apply()`, tagged with `name` and the arguments it was
+   * called with. If `fn` returns a promise, only its synchronous part is in the batch; see `asyncAction()`.
+   */
+  action<A extends unknown[], R>(name: string, fn: (...args: A) => R): (...args: A) => R;
+  /**
+   * Like `action()`, for `async` functions. `fn` gets a `run` function: the writes after an `await` go through it, and
+   * each call of it is one batch tagged like the action's synchronous part.
+   */
+  asyncAction<A extends unknown[], R>(
+    name: string,
+    fn: (run: ActionRunner, ...args: A) => Promise<R>,
+  ): (...args: A) => Promise<R>;
   trigger<R>(selector: (root: T) => R): void;
 }
 
-function pathToString(path: Path): string {
-  return path.map((p) => String(p)).join(".");
+interface Layer {
+  changes: Change[];
+  /** Committed layers are folded into the confirmed state once every layer below them is settled. */
+  committed: boolean;
 }
 
-function isPathAffected(accessedPath: string, changedPath: string): boolean {
-  if (accessedPath === changedPath) return true;
-  if (accessedPath.startsWith(changedPath + ".")) return true;
-  if (changedPath.startsWith(accessedPath + ".")) return true;
-  return false;
+export interface StoreOptions<T = any> {
+  /** Record previous values on emitted changes so they can be inverted with `invertChanges`. */
+  invertible?: boolean;
+  /** Codecs for values the store does not support natively, such as `dateCodec` and `bigintCodec`. */
+  codecs?: ValueCodec[];
+  /** Middleware every change passes through before it is applied, in order. */
+  middleware?: Middleware<T>[];
+  /**
+   * Schema the state must match, built with `s`. The initial state, every write and every replayed change is checked
+   * against it; a mismatch throws a `StoreValidationError`.
+   */
+  schema?: Schema;
+  /** Throw on writes through `root` made outside `apply()` and actions, so every change can be attributed. */
+  strict?: boolean;
 }
 
-function getLeafPaths(paths: Set<string>): Set<string> {
-  const leafPaths = new Set<string>();
-  for (const path of paths) {
-    let isPrefix = false;
-    for (const other of paths) {
-      if (other !== path && other.startsWith(path + ".")) {
-        isPrefix = true;
-        break;
-      }
-    }
-    if (!isPrefix) {
-      leafPaths.add(path);
+export function createStore<T extends object>(initialValue?: Partial<T>, options: StoreOptions<T> = {}): Store<T> {
+  const codecs = options.codecs ?? [];
+  const codecNames = new Set<string>();
+  for (const codec of codecs) {
+    if (codecNames.has(codec.name)) {
+      throw new Error(`Duplicate codec name "${codec.name}".`);
     }
+    codecNames.add(codec.name);
   }
-  return leafPaths;
-}
 
-export function createStore<T extends object>(initialValue?: Partial<T>): Store<T> {
   if (initialValue !== undefined) {
-    assertSerializable(initialValue, "root");
+    assertSerializable(initialValue, "root", codecs);
   }
 
   const data: T = (initialValue ?? {}) as T;
+  const schema = options.schema;
+  schema?.validate(data, "");
   const subscriptions = new Set<Subscription<T, unknown>>();
-  const changeSubscribers = new Set<(changes: Change[]) => void>();
+  // Subscriptions by the leaf paths they read, so a change only visits subscriptions on its ancestors and descendants
+  const subscriptionIndex = createPathIndex<Subscription<T, unknown>>();
+  let nextSubscriptionId = 0;
+  const changeSubscribers = new Set<ChangeCallback>();
+  const commitSubscribers = new Set<ChangeCallback>();
   const proxyCache = new WeakMap<object, WeakRef<object>>();
   const arrayMutators = new Set(["push", "pop", "shift", "unshift", "splice", "sort", "reverse", "fill", "copyWithin"]);
+  const mapMutators = new Set(["set", "delete", "clear"]);
+  const setMutators = new Set(["add", "delete", "clear"]);
+  const middleware = [...(options.middleware ?? [])];
 
   let isNotifying = false;
-  let pendingNotification = false;
+  // Paths changed by writes made while subscribers were being notified; handled once the current pass ends
+  const pendingPaths: ChangedPaths = new Map();
   let isInTransaction = false;
-  const txChangedPaths = new Set<string>();
+  const txChangedPaths: ChangedPaths = new Map();
   const txChanges: Change[] = [];
+  // Path each journaled change affected, which for writes that changed an array's length is the array's
+  const txPaths: string[] = [];
+  const txRollbacks: (() => void)[] = [];
+  // Journal positions of the savepoints that can still be rolled back to, oldest first
+  const txSavepoints: { position: number }[] = [];
+  const computeds = new Set<WeakRef<ComputedState>>();
+  // Path set of the selector currently being evaluated; computed values report their dependencies into it
+  let activePaths: Set<string> | null = null;
+
+  // Optimistic updates and writes made after them, oldest first; their changes are normalized and encoded
+  const layers: Layer[] = [];
+  // Encoded state underneath the layers; only kept while there are any
+  let confirmed: object | null = null;
+  // Collects the changes of the optimistic update being run
+  let layerCapture: Change[] | null = null;
+  // Set while changes that move the layers are applied, so they are not taken for new layers
+  let isMovingLayers = false;
 
   // --- helpers ---
 
+  /** Whether proxies descend into `value`. Codec values are opaque: they are replaced, never mutated in place. */
+  function isTraversable(value: unknown): value is object {
+    return value !== null && typeof value === "object" && !findCodec(value, codecs);
+  }
+
   function getCachedProxy<U extends object>(target: U, factory: () => U): U {
     const ref = proxyCache.get(target);
     if (ref) {
@@ -144,116 +392,717 @@ export function createStore<T extends object>(initialValue?: Partial<T>): Store<
     return proxy;
   }
 
-  function recordChange(change: Change, rollback: () => void): void {
+  /** Runs `selector` and returns the path and value of the plain object it picks from the state. */
+  function resolveSelection(selector: (root: T) => unknown, method: string): { path: string; value: object } {
+    const selections = new WeakMap<object, { path: string; value: object }>();
+    const createSelectionProxy = (target: object, currentPath: Path): object => {
+      const proxy = new Proxy(target, {
+        get(obj, prop) {
+          const value: unknown = Reflect.get(obj, prop);
+          if (obj instanceof Map && prop === "get") {
+            return (key: unknown) => {
+              const item = obj.get(key);
+              return isCollectionKey(key) && isTraversable(item)
+                ? createSelectionProxy(item, [...currentPath, keyToSegment(key)])
+                : item;
+            };
+          }
+          if (typeof value === "function") return (value as Function).bind(obj);
+          return isTraversable(value) ? createSelectionProxy(value, [...currentPath, prop]) : value;
+        },
+      });
+      selections.set(proxy, { path: pathToString(currentPath), value: target });
+      return proxy;
+    };
+
+    const selected = selector(createSelectionProxy(data, []) as T);
+    const selection = isTraversable(selected) ? selections.get(selected) : undefined;
+    if (!selection || !isPlainObject(selection.value)) {
+      throw new Error(`${method}() selector must return a plain object from the state.`);
+    }
+    return selection;
+  }
+
+  function track<R>(selector: (root: T) => R, paths: Set<string>): R {
+    const previous = activePaths;
+    activePaths = paths;
+    try {
+      return selector(createTrackingProxy(data, paths, []));
+    } finally {
+      activePaths = previous;
+    }
+  }
+
+  function invalidateComputeds(changedPaths: Iterable<string>): void {
+    for (const ref of computeds) {
+      const state = ref.deref();
+      if (!state) {
+        computeds.delete(ref);
+        continue;
+      }
+      if (state.dirty) continue;
+      for (const changed of changedPaths) {
+        if ([...state.leafPaths].some((accessed) => isPathAffected(accessed, changed))) {
+          state.dirty = true;
+          break;
+        }
+      }
+    }
+  }
+
+  function addSubscription(sub: Subscription<T, unknown>): void {
+    subscriptions.add(sub);
+    indexSubscription(sub, sub.paths);
+  }
+
+  function removeSubscription(sub: Subscription<T, unknown>): void {
+    subscriptions.delete(sub);
+    for (const path of sub.leafPaths) {
+      subscriptionIndex.delete(path, sub);
+    }
+    sub.leafPaths = new Set();
+  }
+
+  function indexSubscription(sub: Subscription<T, unknown>, paths: Set<string>): void {
+    for (const path of sub.leafPaths) {
+      subscriptionIndex.delete(path, sub);
+    }
+    sub.paths = paths;
+    sub.leafPaths = getLeafPaths(paths);
+    for (const path of sub.leafPaths) {
+      subscriptionIndex.add(path, sub);
+    }
+  }
+
+  function addChangedPath(into: ChangedPaths, path: string, firstIndex: number): void {
+    const current = into.get(path);
+    into.set(path, current === undefined ? firstIndex : Math.min(current, firstIndex));
+  }
+
+  /** The first index an array change that was just applied may have affected; elements before it are untouched. */
+  function getFirstChangedIndex(change: ArrayChange): number {
+    const array = getValueAtPath(data, change.path);
+    const length = Array.isArray(array) ? array.length : 0;
+    const [start] = change.args;
+    switch (change.method) {
+      case "push":
+        return Math.max(length - change.args.length, 0);
+      case "pop":
+        return length;
+      case "splice": {
+        // A start past the end inserts at the old length, which is the new length minus the inserted items
+        const inserted = Math.max(change.args.length - 2, 0);
+        const n = Math.trunc(Number(start)) || 0;
+        return n < 0 ? 0 : Math.min(n, Math.max(length - inserted, 0));
+      }
+      case "fill":
+        return normalizeIndex(change.args[1], length);
+      case "copyWithin":
+        return normalizeIndex(start, length);
+      default:
+        return 0;
+    }
+  }
+
+  /** Length of the array a property write goes to, read before the write. Undefined for writes to anything else. */
+  function getContainerLength(change: Change): number | undefined {
+    if (change.type !== "property") return undefined;
+    const container = getValueAtPath(data, splitPath(change.path)[0]);
+    return Array.isArray(container) ? container.length : undefined;
+  }
+
+  /**
+   * The path a change that was just applied affects, and the first array index below it that may have changed. A
+   * property write that changed an array's length affects the array itself, from the shorter of its two lengths on.
+   */
+  function getChangedRange(change: Change, previousLength: number | undefined): [path: string, firstIndex: number] {
+    if (change.type === "array") return [change.path, getFirstChangedIndex(change)];
+    if (previousLength !== undefined) {
+      const [arrayPath] = splitPath(change.path);
+      const length = (getValueAtPath(data, arrayPath) as unknown[]).length;
+      if (length !== previousLength) return [arrayPath, Math.min(previousLength, length)];
+    }
+    return [getChangedPath(change), 0];
+  }
+
+  /** `previousLength` is `getContainerLength(change)`, read before the change was applied. */
+  function recordChange(change: Change, rollback: () => void, previousLength?: number): void {
+    const [changedPath, firstIndex] = getChangedRange(change, previousLength);
+    invalidateComputeds([changedPath]);
     if (isInTransaction) {
-      txChangedPaths.add(change.path);
+      addChangedPath(txChangedPaths, changedPath, firstIndex);
       txChanges.push(change);
+      txPaths.push(changedPath);
+      txRollbacks.push(rollback);
     } else {
+      let undoLayering = () => {};
+      let notifyCommitted = () => {};
       try {
-        notifyChangeSubscribers([change]);
-        notifySubscribers(new Set([change.path]));
+        notifyCommitted = notifyChangeSubscribers([change], { source: "local" });
+        undoLayering = addToLayers([change]);
+        notifySubscribers(new Map([[changedPath, firstIndex]]));
       } catch (e) {
+        undoLayering();
         rollback();
+        invalidateComputeds([changedPath]);
         throw e;
       }
+      notifyCommitted();
+    }
+  }
+
+  function rollbackJournal(position: number): void {
+    for (let i = txRollbacks.length - 1; i >= position; i--) {
+      txRollbacks[i]!();
+    }
+    invalidateComputeds(txPaths.slice(position));
+    txRollbacks.length = position;
+    txChanges.length = position;
+    txPaths.length = position;
+    txChangedPaths.clear();
+    // The state the remaining changes were applied to is gone, so assume they affected everything below their path
+    for (const path of txPaths) {
+      addChangedPath(txChangedPaths, path, 0);
     }
   }
 
-  function runTransaction(fn: () => void): void {
+  function runTransaction(fn: () => void, meta: ChangeMeta): void {
+    if (isInTransaction) {
+      // Nested transactions join the outer batch; a failure only undoes their own mutations
+      const position = txRollbacks.length;
+      const savepointCount = txSavepoints.length;
+      try {
+        fn();
+      } catch (e) {
+        rollbackJournal(position);
+        txSavepoints.length = savepointCount;
+        throw e;
+      }
+      return;
+    }
+
     isInTransaction = true;
     txChangedPaths.clear();
     txChanges.length = 0;
+    txPaths.length = 0;
+    txRollbacks.length = 0;
 
     try {
       fn();
-    } finally {
+    } catch (e) {
+      // Undo every mutation of the transaction, newest first, so the store never exposes a partial state
+      rollbackJournal(0);
+      endTransaction();
+      throw e;
+    }
+    commitTransaction(meta);
+  }
+
+  /** Emits the changes of the open transaction as one batch, undoing all of them if a subscriber throws. */
+  function commitTransaction(meta: ChangeMeta): void {
+    let undoLayering = () => {};
+    let notifyCommitted = () => {};
+    try {
       isInTransaction = false;
+      txSavepoints.length = 0;
       if (txChangedPaths.size > 0) {
-        notifyChangeSubscribers([...txChanges]);
-        notifySubscribers(new Set(txChangedPaths));
-        txChangedPaths.clear();
-        txChanges.length = 0;
+        notifyCommitted = notifyChangeSubscribers([...txChanges], meta);
+        undoLayering = addToLayers(txChanges);
+        notifySubscribers(new Map(txChangedPaths));
       }
+    } catch (e) {
+      undoLayering();
+      rollbackJournal(0);
+      throw e;
+    } finally {
+      endTransaction();
+    }
+    notifyCommitted();
+  }
+
+  function endTransaction(): void {
+    isInTransaction = false;
+    txChangedPaths.clear();
+    txChanges.length = 0;
+    txPaths.length = 0;
+    txRollbacks.length = 0;
+    txSavepoints.length = 0;
+  }
+
+  function assertCanWrite(path: string): void {
+    if (options.strict && !isInTransaction) {
+      throw new Error(`Cannot write "${path}" outside apply() or an action: the store is in strict mode.`);
+    }
+  }
+
+  function replayChanges(encodedChanges: Change[], meta: ChangeMeta = { source: "remote" }): void {
+    if (encodedChanges.length === 0) return;
+    const changes = codecs.length > 0 ? (decodeValue(encodedChanges, codecs) as Change[]) : encodedChanges;
+    runTransaction(() => {
+      for (const change of changes) {
+        assertChange(change);
+        const rollback = createRollback(data, change);
+        const previousLength = getContainerLength(change);
+        applyChangeTo(data, change);
+        recordChange(change, rollback, previousLength);
+      }
+    }, meta);
+  }
+
+  function assertChange(change: Change): void {
+    if (change.type === "property") {
+      assertSerializable(change.value, change.path, codecs);
+    } else if (change.type === "map" && change.method === "set") {
+      assertCollectionKey(change.args[0], "Map key", change.path);
+      assertSerializable(change.args[1], getChangedPath(change), codecs);
+    } else if (change.type === "set" && change.method === "add") {
+      assertCollectionKey(change.args[0], "Set member", change.path);
+    }
+    assertMatchesSchema(change);
+  }
+
+  /** Checks the values `change` stores against the schema. */
+  function assertMatchesSchema(change: Change): void {
+    if (!schema) return;
+    if (change.type === "property") {
+      // A write under a missing object creates it, so the new object has to match the schema as a whole
+      const [path, value] = getStoredValue(data, change.path, change.value);
+      schemaAt(schema, path).validate(value, path);
+      // Growing an array through `length` or an index past its end leaves holes, which read as `undefined`
+      const [arrayPath, key] = splitPath(change.path);
+      const arr = getValueAtPath(data, arrayPath);
+      if (Array.isArray(arr)) {
+        const end = key === "length" ? Number(change.value) : Number(key);
+        for (let i = arr.length; i < end; i++) {
+          const holePath = joinPath(arrayPath, String(i));
+          schemaAt(schema, holePath).validate(undefined, holePath);
+        }
+      }
+    } else if (change.type === "array") {
+      const arr = getValueAtPath(data, change.path);
+      const length = Array.isArray(arr) ? arr.length : 0;
+      const { args } = change;
+      const insertedAt = (index: number, items: unknown[]) =>
+        items.forEach((item, i) => {
+          const path = joinPath(change.path, String(index + i));
+          schemaAt(schema, path).validate(item, path);
+        });
+      if (change.method === "push") {
+        insertedAt(length, args);
+      } else if (change.method === "unshift") {
+        insertedAt(0, args);
+      } else if (change.method === "splice") {
+        insertedAt(normalizeIndex(args[0], length), args.slice(2));
+      } else if (change.method === "fill" && length > 0) {
+        insertedAt(normalizeIndex(args[1] ?? 0, length), args.slice(0, 1));
+      }
+    } else if (change.method === "set" || change.method === "add") {
+      const path = getChangedPath(change);
+      schemaAt(schema, path).validate(change.args[change.method === "set" ? 1 : 0], path);
+    }
+  }
+
+  // --- middleware ---
+
+  /** Passes `change` through the middleware, handing every change that comes out of it to `commit`. */
+  function runMiddleware(change: Change, commit: (change: Change) => void, source: ChangeMeta["source"]): void {
+    const middlewareList = [...middleware];
+    const context: MiddlewareContext<T> = { root: rootProxy, source };
+    const dispatch = (index: number, change: Change): void => {
+      const current = middlewareList[index];
+      if (current) {
+        current(change, (next) => dispatch(index + 1, next), context);
+      } else {
+        commit(change);
+      }
+    };
+    dispatch(0, change);
+  }
+
+  /**
+   * Runs a pending write through the middleware and applies what comes out of it as one batch. Returns what the
+   * first change applied at the written path returned, like the result of an array method.
+   */
+  function interceptWrite(change: Change): unknown {
+    let result: unknown;
+    let hasResult = false;
+    const commit = (next: Change) => {
+      const value = commitChange(next);
+      if (!hasResult && next.path === change.path) {
+        result = value;
+        hasResult = true;
+      }
+    };
+    runTransaction(() => runMiddleware(change, commit, "local"), { source: "local" });
+    return result;
+  }
+
+  /** Applies a change that came out of the middleware, recording inverse data if the store is invertible. */
+  function commitChange(change: Change): unknown {
+    assertChange(change);
+    if (change.type === "array") {
+      change.args.forEach((arg, i) => assertSerializable(arg, `${change.path}.${change.method}(arg${i})`, codecs));
+    }
+    const copy = { ...change };
+    const target = getValueAtPath(data, copy.path);
+    const rollback = createRollback(data, copy);
+    if (options.invertible) {
+      if (copy.type === "property") {
+        copy.oldValue = target;
+        Object.assign(copy, getPropertyInverseData(data, copy));
+      } else if (copy.type !== "array" && (target instanceof Map || target instanceof Set)) {
+        Object.assign(copy, getCollectionInverseData(target, copy.method, copy.args));
+      }
+    }
+    const before = options.invertible && Array.isArray(target) ? [...target] : [];
+    const previousLength = getContainerLength(copy);
+    const result = applyChangeTo(data, copy);
+    if (options.invertible && copy.type === "array") {
+      Object.assign(copy, getArrayInverseData(copy.method, copy.args, before, result));
+    }
+    recordChange(copy, rollback, previousLength);
+    return result;
+  }
+
+  /** Runs changes passed to `applyChanges` through the middleware, against the state before any of them. */
+  function interceptChanges(encodedChanges: Change[], source: ChangeMeta["source"] = "remote"): Change[] {
+    const changes = codecs.length > 0 ? (decodeValue(encodedChanges, codecs) as Change[]) : encodedChanges;
+    const intercepted: Change[] = [];
+    for (const change of changes) {
+      runMiddleware(change, (next) => intercepted.push(next), source);
+    }
+    return codecs.length > 0 ? (encodeValue(intercepted, codecs) as Change[]) : intercepted;
+  }
+
+  // --- optimistic layers ---
+
+  function encodeChanges(changes: Change[]): Change[] {
+    return encodeValue(cloneValue(changes, codecs), codecs) as Change[];
+  }
+
+  /** The encoded state with the first `count` layers applied. */
+  function layeredState(count: number): object {
+    const state = cloneValue(confirmed!);
+    for (const layer of layers.slice(0, count)) {
+      normalizeOnto(state, layer.changes);
+    }
+    return state;
+  }
+
+  /**
+   * Records a batch the change subscribers accepted in the optimistic update being run, or as a layer of its own
+   * while updates are pending. Returns a function that removes it again should the batch be rolled back.
+   */
+  function addToLayers(changes: Change[]): () => void {
+    if (layerCapture) {
+      const capture = layerCapture;
+      const position = capture.length;
+      capture.push(...encodeChanges(changes));
+      return () => capture.splice(position);
+    }
+    if (layers.length === 0 || isMovingLayers) return () => {};
+    // Writes made while updates are pending stay on top of them, like an update that is already committed
+    const layer = { changes: normalizeOnto(layeredState(layers.length), encodeChanges(changes)), committed: true };
+    layers.push(layer);
+    return () => layers.splice(layers.indexOf(layer), 1);
+  }
+
+  /** Moves committed layers at the bottom into the confirmed state. */
+  function foldCommittedLayers(): void {
+    while (layers[0]?.committed) {
+      normalizeOnto(confirmed!, layers.shift()!.changes);
     }
+    if (layers.length === 0) confirmed = null;
   }
 
-  function notifyChangeSubscribers(changes: Change[]): void {
+  /** Applies confirmed changes underneath the layers, which are rebased onto them. */
+  function applyUnderLayers(encodedChanges: Change[]): void {
+    const state = cloneValue(confirmed!);
+    let changes = normalizeOnto(state, encodedChanges);
+    const rebased = layers.map((layer) => {
+      let layerChanges: Change[];
+      [changes, layerChanges] = transformChanges(changes, layer.changes);
+      return layerChanges;
+    });
+    isMovingLayers = true;
+    try {
+      replayChanges(changes);
+    } finally {
+      isMovingLayers = false;
+    }
+    confirmed = state;
+    layers.forEach((layer, i) => (layer.changes = rebased[i]!));
+  }
+
+  function revertLayer(layer: Layer): void {
+    const index = layers.indexOf(layer);
+    let changes = invertChanges(recordInverseData(layeredState(index), layer.changes));
+    if (!options.invertible) {
+      // Only invertible stores emit previous values
+      changes = changes.map((change) => {
+        if (change.type !== "property") return change;
+        const copy = { ...change };
+        delete copy.oldValue;
+        return copy;
+      });
+    }
+    // Undo the layer's changes where later layers left them
+    const later = layers.slice(index + 1).map((above) => {
+      let aboveChanges: Change[];
+      [changes, aboveChanges] = transformChanges(changes, above.changes);
+      return aboveChanges;
+    });
+    isMovingLayers = true;
+    try {
+      replayChanges(changes, { source: "local" });
+    } finally {
+      isMovingLayers = false;
+    }
+    layers.splice(index, 1);
+    later.forEach((changes, i) => (layers[index + i]!.changes = changes));
+    foldCommittedLayers();
+  }
+
+  /**
+   * Emits a batch to the change subscribers. Returns a function that emits the same batch to the `afterCommit` ones,
+   * to call once nothing can roll it back any more.
+   */
+  function notifyChangeSubscribers(changes: Change[], meta: ChangeMeta): () => void {
+    if (changeSubscribers.size === 0 && commitSubscribers.size === 0) return () => {};
+    const emitted = codecs.length > 0 ? (encodeValue(changes, codecs) as Change[]) : changes;
     for (const callback of changeSubscribers) {
-      callback(changes);
+      callback(emitted, meta);
     }
+    return () => {
+      for (const callback of [...commitSubscribers]) {
+        callback(emitted, meta);
+      }
+    };
   }
 
-  function notifySubscribers(changedPaths: Set<string>, force = false): void {
+  function notifySubscribers(changedPaths: ChangedPaths, force = false): void {
     if (isNotifying) {
-      pendingNotification = true;
+      for (const [path, firstIndex] of changedPaths) {
+        addChangedPath(pendingPaths, path, firstIndex);
+      }
       return;
     }
 
     isNotifying = true;
 
     try {
-      for (const sub of subscriptions) {
-        const pathsToCheck = force ? getLeafPaths(sub.paths) : sub.paths;
-        let shouldNotify = false;
-
-        for (const accessed of pathsToCheck) {
-          for (const changed of changedPaths) {
-            if (isPathAffected(accessed, changed)) {
-              shouldNotify = true;
-              break;
-            }
-          }
-          if (shouldNotify) break;
-        }
+      const affected = new Set<Subscription<T, unknown>>();
+      for (const [changed, firstIndex] of changedPaths) {
+        subscriptionIndex.collect(changed, affected, firstIndex);
+      }
 
-        if (shouldNotify) {
-          const newPaths = new Set<string>();
-          const proxy = createTrackingProxy(data, newPaths, []);
-          const newValue = sub.selector(proxy);
-          sub.paths = newPaths;
+      for (const sub of [...affected].sort((a, b) => a.id - b.id)) {
+        // An earlier callback in this pass may have unsubscribed it
+        if (!subscriptions.has(sub)) continue;
 
-          if (force || !Object.is(newValue, sub.lastValue)) {
-            sub.lastValue = newValue;
-            sub.callback(newValue);
-          }
+        const newPaths = new Set<string>();
+        const newValue = track(sub.selector, newPaths);
+        indexSubscription(sub, newPaths);
+
+        if (force || !sub.equals(newValue, sub.lastValue)) {
+          sub.lastValue = newValue;
+          sub.callback(newValue);
         }
       }
     } finally {
       isNotifying = false;
-      if (pendingNotification) {
-        pendingNotification = false;
-        notifySubscribers(changedPaths, force);
-      }
+      flushPendingNotifications();
+    }
+  }
+
+  function flushPendingNotifications(): void {
+    if (pendingPaths.size > 0) {
+      const changedPaths = new Map(pendingPaths);
+      pendingPaths.clear();
+      notifySubscribers(changedPaths);
     }
   }
 
   // --- proxies ---
 
+  /** Tracks reads into `paths`. Writes go through the write proxy of the same object, like writes through `root`. */
   function createTrackingProxy<U extends object>(target: U, paths: Set<string>, currentPath: Path): U {
     return new Proxy(target, {
       get(obj, prop) {
         if (prop === Symbol.toStringTag || prop === Symbol.toPrimitive) return undefined;
+        if (obj instanceof Map || obj instanceof Set) return getTrackedCollectionMember(obj, prop, paths, currentPath);
 
         const value = Reflect.get(obj, prop);
         const newPath = [...currentPath, prop];
-        paths.add(pathToString(newPath));
 
-        if (typeof value === "function") return (value as Function).bind(obj);
-        if (value !== null && typeof value === "object") {
-          return createTrackingProxy(value as object, paths, newPath);
+        if (Array.isArray(obj) && typeof value === "function" && arrayMutators.has(String(prop))) {
+          return Reflect.get(createWriteProxy(obj, currentPath), prop);
+        }
+        // Methods like `filter` or `join` read the whole object untracked, so depend on all of it
+        if (typeof value === "function") {
+          if (currentPath.length > 0) paths.add(pathToString([...currentPath, WHOLE_VALUE]));
+          return (value as Function).bind(obj);
+        }
+        paths.add(pathToString(newPath));
+        if (isTraversable(value)) {
+          return createTrackingProxy(value, paths, newPath);
         }
         return value;
       },
+
+      ownKeys(obj) {
+        // Enumerating keys (Object.keys, spread, JSON.stringify) depends on the key set, so depend on all of it
+        if (currentPath.length > 0) paths.add(pathToString([...currentPath, WHOLE_VALUE]));
+        return Reflect.ownKeys(obj);
+      },
+
+      set(obj, prop, value) {
+        return Reflect.set(createWriteProxy(obj, currentPath), prop, value);
+      },
+
+      deleteProperty(obj, prop) {
+        return Reflect.deleteProperty(createWriteProxy(obj, currentPath), prop);
+      },
     });
   }
 
+  function getTrackedCollectionMember(
+    collection: Map<unknown, unknown> | Set<unknown>,
+    prop: PropertyKey,
+    paths: Set<string>,
+    currentPath: Path,
+  ): unknown {
+    // Lookups depend on a single key
+    if (prop === "get" || prop === "has") {
+      return (key: unknown) => {
+        const keyPath = isCollectionKey(key) ? [...currentPath, keyToSegment(key)] : null;
+        if (keyPath) paths.add(pathToString(keyPath));
+        if (prop === "has") return collection.has(key);
+        const value = (collection as Map<unknown, unknown>).get(key);
+        if (keyPath && isTraversable(value)) {
+          return createTrackingProxy(value, paths, keyPath);
+        }
+        return value;
+      };
+    }
+
+    if (typeof prop === "string" && (collection instanceof Map ? mapMutators : setMutators).has(prop)) {
+      return Reflect.get(createWriteProxy(collection, currentPath), prop);
+    }
+
+    // `size`, iteration and `forEach` depend on every entry
+    if (currentPath.length > 0) paths.add(pathToString([...currentPath, WHOLE_VALUE]));
+    const value: unknown = Reflect.get(collection, prop);
+    return typeof value === "function" ? value.bind(collection) : value;
+  }
+
+  function getWritableCollectionMember(
+    collection: Map<unknown, unknown> | Set<unknown>,
+    prop: PropertyKey,
+    receiver: object,
+    currentPath: Path,
+  ): unknown {
+    const value: unknown = Reflect.get(collection, prop);
+    if (typeof value !== "function") return value;
+
+    const isMap = collection instanceof Map;
+    const mutators = isMap ? mapMutators : setMutators;
+    if (typeof prop === "string" && mutators.has(prop)) {
+      return (...args: unknown[]) => {
+        const result = mutateCollection(collection, prop, args, currentPath);
+        return result === collection ? receiver : result;
+      };
+    }
+
+    if (!isMap) return value.bind(collection);
+    const map = collection;
+    // Values read from a Map are writable too, at the path of their key
+    const wrap = (key: unknown, item: unknown): unknown =>
+      isCollectionKey(key) && isTraversable(item) ? createWriteProxy(item, [...currentPath, keyToSegment(key)]) : item;
+
+    switch (prop) {
+      case "get":
+        return (key: unknown) => wrap(key, map.get(key));
+      case "forEach":
+        return (callback: (value: unknown, key: unknown, map: unknown) => void, thisArg?: unknown) => {
+          map.forEach((item, key) => callback.call(thisArg, wrap(key, item), key, receiver));
+        };
+      case "values":
+        return function* () {
+          for (const [key, item] of map) yield wrap(key, item);
+        };
+      case "entries":
+      case Symbol.iterator:
+        return function* () {
+          for (const [key, item] of map) yield [key, wrap(key, item)];
+        };
+      default:
+        return value.bind(map);
+    }
+  }
+
+  function mutateCollection(
+    collection: Map<unknown, unknown> | Set<unknown>,
+    method: string,
+    args: unknown[],
+    currentPath: Path,
+  ): unknown {
+    const pathStr = pathToString(currentPath);
+    assertCanWrite(pathStr);
+    const key = args[0];
+    const isMap = collection instanceof Map;
+
+    if (method === "set" || method === "add") {
+      assertCollectionKey(key, isMap ? "Map key" : "Set member", pathStr);
+      if (isMap) assertSerializable(args[1], `${pathStr}.${keyToSegment(key)}`, codecs);
+    }
+    // Deleting a missing key, clearing an empty collection or re-adding a Set member changes nothing
+    const unchanged =
+      method === "clear"
+        ? collection.size === 0
+        : method === "delete"
+          ? !collection.has(key)
+          : method === "add" && collection.has(key);
+    if (unchanged) {
+      return method === "delete" ? false : method === "add" ? collection : undefined;
+    }
+
+    const recordedArgs = method === "clear" ? [] : method === "set" ? [key, args[1]] : [key];
+    const change = (
+      isMap
+        ? { type: "map", path: pathStr, method, args: recordedArgs }
+        : { type: "set", path: pathStr, method, args: recordedArgs }
+    ) as MapChange | SetChange;
+    if (middleware.length > 0) return interceptWrite(change);
+    assertMatchesSchema(change);
+    if (options.invertible) {
+      Object.assign(change, getCollectionInverseData(collection, method, recordedArgs));
+    }
+
+    let rollback: () => void;
+    if (method === "set" || method === "add") {
+      const hadKey = collection.has(key);
+      const oldValue = isMap ? collection.get(key) : undefined;
+      rollback = () => (hadKey && isMap ? collection.set(key, oldValue) : collection.delete(key));
+    } else {
+      rollback = createCollectionRollback(collection);
+    }
+
+    const result = (collection[method as keyof typeof collection] as Function).apply(collection, recordedArgs);
+    recordChange(change, rollback);
+    return result;
+  }
+
   function createWriteProxy<U extends object>(target: U, currentPath: Path): U {
     return getCachedProxy(
       target,
       () =>
         new Proxy(target, {
-          get(obj, prop) {
+          get(obj, prop, receiver) {
             if (prop === Symbol.toStringTag || prop === Symbol.toPrimitive) return undefined;
+            if (obj instanceof Map || obj instanceof Set) {
+              return getWritableCollectionMember(obj, prop, receiver, currentPath);
+            }
 
             const value: unknown = Reflect.get(obj, prop);
 
@@ -263,12 +1112,21 @@ export function createStore<T extends object>(initialValue?: Partial<T>): Store<
               if (arrayMutators.has(propStr)) {
                 return (...args: unknown[]) => {
                   const pathStr = pathToString(currentPath);
+                  assertCanWrite(pathStr);
+                  if (middleware.length > 0) {
+                    return interceptWrite({ type: "array", path: pathStr, method: propStr, args });
+                  }
                   for (let i = 0; i < args.length; i++) {
-                    assertSerializable(args[i], `${pathStr}.${propStr}(arg${i})`);
+                    assertSerializable(args[i], `${pathStr}.${propStr}(arg${i})`, codecs);
                   }
+                  assertMatchesSchema({ type: "array", path: pathStr, method: propStr, args });
                   const snapshot = [...obj];
                   const result = (value as Function).apply(obj, args);
-                  recordChange({ type: "array", path: pathStr, method: propStr, args }, () => {
+                  const change: ArrayChange = { type: "array", path: pathStr, method: propStr, args };
+                  if (options.invertible) {
+                    Object.assign(change, getArrayInverseData(propStr, args, snapshot, result));
+                  }
+                  recordChange(change, () => {
                     obj.length = 0;
                     obj.push(...snapshot);
                   });
@@ -278,128 +1136,406 @@ export function createStore<T extends object>(initialValue?: Partial<T>): Store<
               return (value as Function).bind(obj);
             }
 
-            if (value !== null && typeof value === "object") {
-              return createWriteProxy(value as object, [...currentPath, prop]);
+            if (isTraversable(value)) {
+              return createWriteProxy(value, [...currentPath, prop]);
             }
             return value;
           },
 
           set(obj, prop, value) {
             const pathStr = pathToString([...currentPath, prop]);
-            assertSerializable(value, pathStr);
+            assertCanWrite(pathStr);
+            if (middleware.length > 0) {
+              interceptWrite({ type: "property", path: pathStr, value });
+              return true;
+            }
+            assertSerializable(value, pathStr, codecs);
+            assertMatchesSchema({ type: "property", path: pathStr, value });
+            const hadProp = Reflect.has(obj, prop);
             const oldValue = Reflect.get(obj, prop);
+            const change: PropertyChange = { type: "property", path: pathStr, value };
+            if (options.invertible) {
+              change.oldValue = oldValue;
+              if (Array.isArray(obj)) Object.assign(change, getPropertyInverseData(data, change));
+            }
+            // Writes to an array can change its length, which only `createRollback` knows how to restore
+            const rollback = Array.isArray(obj)
+              ? createRollback(data, change)
+              : () => (hadProp ? Reflect.set(obj, prop, oldValue) : Reflect.deleteProperty(obj, prop));
+            const previousLength = Array.isArray(obj) ? obj.length : undefined;
             Reflect.set(obj, prop, value);
-            recordChange({ type: "property", path: pathStr, value }, () => Reflect.set(obj, prop, oldValue));
+            recordChange(change, rollback, previousLength);
             return true;
           },
 
           deleteProperty(obj, prop) {
-            if (!(prop in obj)) return true;
             const pathStr = pathToString([...currentPath, prop]);
+            assertCanWrite(pathStr);
+            if (!(prop in obj)) return true;
+            if (middleware.length > 0) {
+              interceptWrite({ type: "property", path: pathStr, value: undefined });
+              return true;
+            }
+            assertMatchesSchema({ type: "property", path: pathStr, value: undefined });
             const oldValue = Reflect.get(obj, prop);
             Reflect.deleteProperty(obj, prop);
-            recordChange({ type: "property", path: pathStr, value: undefined }, () => Reflect.set(obj, prop, oldValue));
+            const change: PropertyChange = { type: "property", path: pathStr, value: undefined };
+            if (options.invertible) change.oldValue = oldValue;
+            recordChange(change, () => Reflect.set(obj, prop, oldValue));
             return true;
           },
         }),
     );
   }
 
-  // --- path utilities for applyChanges ---
-
-  function getValueAtPath(path: string): unknown {
-    const segments = path.split(".");
-    let current: unknown = data;
-    for (const segment of segments) {
-      if (current === null || current === undefined) return undefined;
-      current = (current as Record<string, unknown>)[segment];
-    }
-    return current;
-  }
-
-  function setValueAtPath(path: string, value: unknown): void {
-    const segments = path.split(".");
-    if (segments.length === 0) return;
-    let current = data as Record<string, unknown>;
-    for (let i = 0; i < segments.length - 1; i++) {
-      const segment = segments[i]!;
-      if (current[segment] === null || current[segment] === undefined) {
-        current[segment] = {};
-      }
-      current = current[segment] as Record<string, unknown>;
-    }
-    current[segments[segments.length - 1]!] = value;
-  }
-
   // --- public API ---
 
   const rootProxy = createWriteProxy(data, []);
+  let readonlyView: ReadonlyStore<T> | undefined;
 
-  return {
+  const store: Store<T> = {
     get root(): T {
       return rootProxy;
     },
 
+    codecs,
+
     snapshot(): T {
-      return JSON.parse(JSON.stringify(data));
+      return cloneValue(data, codecs);
     },
 
-    subscribe<R>(selector: (root: T) => R, callback: (value: R) => void): () => void {
+    subscribe<R>(
+      selector: (root: T) => R,
+      callback: (value: R) => void,
+      options: SubscribeOptions<R> = {},
+    ): () => void {
       const paths = new Set<string>();
-      const proxy = createTrackingProxy(data, paths, []);
-      const initialValue = selector(proxy);
+      const initialValue = track(selector, paths);
+      const unsubscribe = () => {
+        removeSubscription(subscription as Subscription<T, unknown>);
+      };
+
+      const subscription: Subscription<T, R> = {
+        id: nextSubscriptionId++,
+        selector,
+        callback: options.once
+          ? (value) => {
+              unsubscribe();
+              callback(value);
+            }
+          : callback,
+        paths,
+        leafPaths: new Set(),
+        lastValue: initialValue,
+        equals: options.equals ?? Object.is,
+      };
+      addSubscription(subscription as Subscription<T, unknown>);
+      if (options.fireImmediately ?? true) {
+        subscription.callback(initialValue);
+      }
 
-      const subscription: Subscription<T, R> = { selector, callback, paths, lastValue: initialValue };
-      subscriptions.add(subscription as Subscription<T, unknown>);
-      callback(initialValue);
+      return unsubscribe;
+    },
 
+    subscribeToChanges(callback: ChangeCallback, options: SubscribeToChangesOptions = {}): () => void {
+      const subscribers = options.afterCommit ? commitSubscribers : changeSubscribers;
+      subscribers.add(callback);
       return () => {
-        subscriptions.delete(subscription as Subscription<T, unknown>);
+        subscribers.delete(callback);
+      };
+    },
+
+    computed<R>(selector: (root: T) => R): Computed<R> {
+      const state: ComputedState = { paths: new Set(), leafPaths: new Set(), dirty: true, value: undefined };
+      computeds.add(new WeakRef(state));
+
+      const computed: Computed<R> = {
+        get value(): R {
+          if (state.dirty) {
+            const paths = new Set<string>();
+            state.value = track(selector, paths);
+            state.paths = paths;
+            state.leafPaths = getLeafPaths(paths);
+            state.dirty = false;
+          }
+          // Make whoever reads this value depend on everything the computed depends on
+          if (activePaths) {
+            for (const path of state.paths) {
+              activePaths.add(path);
+            }
+          }
+          return state.value as R;
+        },
+
+        subscribe(callback: (value: R) => void, options?: SubscribeOptions<R>): () => void {
+          return store.subscribe(() => computed.value, callback, options);
+        },
       };
+      return computed;
     },
 
-    subscribeToChanges(callback: (changes: Change[]) => void): () => void {
-      changeSubscribers.add(callback);
+    effect(fn: (root: T) => void | (() => void)): () => void {
+      let cleanup: void | (() => void);
+      let disposed = false;
+
+      // Runs as a subscription selector, so re-runs share dependency tracking, batching and loop protection
+      const run = (root: T): void => {
+        const previous = cleanup;
+        cleanup = undefined;
+        previous?.();
+        if (!disposed) cleanup = fn(root);
+      };
+
+      const paths = new Set<string>();
+      const subscription: Subscription<T, void> = {
+        id: nextSubscriptionId++,
+        selector: run,
+        callback: () => {},
+        paths,
+        leafPaths: new Set(),
+        lastValue: undefined,
+        equals: Object.is,
+      };
+
+      // The first run counts as a notification pass, so writes it makes re-run the effect afterwards
+      const wasNotifying = isNotifying;
+      isNotifying = true;
+      try {
+        track(run, paths);
+        addSubscription(subscription as Subscription<T, unknown>);
+      } finally {
+        isNotifying = wasNotifying;
+        if (!wasNotifying) flushPendingNotifications();
+      }
+
       return () => {
-        changeSubscribers.delete(callback);
+        if (disposed) return;
+        disposed = true;
+        removeSubscription(subscription as Subscription<T, unknown>);
+        const previous = cleanup;
+        cleanup = undefined;
+        previous?.();
       };
     },
 
     apply(fn: (root: T) => void): void {
-      runTransaction(() => fn(rootProxy));
+      runTransaction(() => fn(rootProxy), { source: "local" });
     },
 
     applyChanges(changes: Change[]): void {
-      if (changes.length === 0) return;
-      runTransaction(() => {
-        for (const change of changes) {
-          if (change.type === "property") {
-            assertSerializable((change as PropertyChange).value, change.path);
-            setValueAtPath(change.path, (change as PropertyChange).value);
-          } else if (change.type === "array") {
-            const arr = getValueAtPath(change.path);
-            if (
-              Array.isArray(arr) &&
-              change.method in arr &&
-              typeof arr[change.method as keyof typeof arr] === "function"
-            ) {
-              (arr[change.method as keyof typeof arr] as Function).apply(arr, change.args);
-            }
+      if (middleware.length > 0) changes = interceptChanges(changes);
+      if (layers.length > 0) {
+        applyUnderLayers(changes);
+      } else {
+        replayChanges(changes);
+      }
+    },
+
+    applyJsonPatch(ops: JsonPatchOperation[]): void {
+      store.applyChanges(fromJsonPatch(ops, data));
+    },
+
+    optimistic(fn: (root: T) => void): OptimisticUpdate {
+      if (isInTransaction) {
+        throw new Error("optimistic() cannot be called inside apply().");
+      }
+      if (layers.length === 0) {
+        confirmed = encodeValue(cloneValue(data, codecs), codecs) as object;
+      }
+      const captured: Change[] = [];
+      layerCapture = captured;
+      try {
+        runTransaction(() => fn(rootProxy), { source: "local" });
+      } catch (e) {
+        if (layers.length === 0) confirmed = null;
+        throw e;
+      } finally {
+        layerCapture = null;
+      }
+      const layer: Layer = { changes: normalizeOnto(layeredState(layers.length), captured), committed: false };
+      layers.push(layer);
+
+      let status: "pending" | "committed" | "reverted" = "pending";
+      const settle = (next: typeof status) => {
+        if (status !== "pending") {
+          throw new Error(`This optimistic update was already ${status}.`);
+        }
+        status = next;
+      };
+      return {
+        commit(): void {
+          settle("committed");
+          layer.committed = true;
+          foldCommittedLayers();
+        },
+        revert(): void {
+          settle("reverted");
+          try {
+            revertLayer(layer);
+          } catch (e) {
+            status = "pending";
+            throw e;
           }
-          txChangedPaths.add(change.path);
-          txChanges.push(change);
+        },
+      };
+    },
+
+    fork<S extends object>(selector: (root: T) => S = (root) => root as unknown as S): StoreFork<S> {
+      const { path, value } = resolveSelection(selector, "fork");
+      const draft = createStore<S>(cloneValue(value, codecs) as Partial<S>, {
+        invertible: options.invertible,
+        codecs,
+        schema: schema && schemaAt(schema, path),
+        strict: options.strict,
+      });
+      // Changes made in the draft since the last merge or discard, encoded
+      let changes: Change[] = [];
+      let isResetting = false;
+      const forkChangeSubscribers = new Set<ChangeCallback>();
+      const dirtyListeners = new Set<(isDirty: boolean) => void>();
+
+      const setChanges = (next: Change[]) => {
+        const wasDirty = changes.length > 0;
+        changes = next;
+        if (wasDirty === changes.length > 0) return;
+        for (const listener of [...dirtyListeners]) {
+          listener(changes.length > 0);
         }
+      };
+
+      // The fork's own change subscribers run first, so batches they reject are never recorded
+      draft.subscribeToChanges((batch, meta) => {
+        for (const callback of forkChangeSubscribers) {
+          callback(batch, meta);
+        }
+        if (!isResetting) setChanges([...changes, ...batch]);
       });
+
+      return {
+        ...draft,
+
+        get isDirty(): boolean {
+          return changes.length > 0;
+        },
+
+        subscribeToChanges(callback: ChangeCallback, options?: SubscribeToChangesOptions): () => void {
+          if (options?.afterCommit) return draft.subscribeToChanges(callback, options);
+          forkChangeSubscribers.add(callback);
+          return () => {
+            forkChangeSubscribers.delete(callback);
+          };
+        },
+
+        subscribeToDirty(callback: (isDirty: boolean) => void): () => void {
+          dirtyListeners.add(callback);
+          callback(changes.length > 0);
+          return () => {
+            dirtyListeners.delete(callback);
+          };
+        },
+
+        merge(): void {
+          if (changes.length === 0) return;
+          // The merge is a local edit of the parent: it goes on top of pending optimistic updates and can be undone
+          let merged = changes.map((change) => ({ ...change, path: joinPath(path, change.path) }));
+          if (middleware.length > 0) merged = interceptChanges(merged, "local");
+          replayChanges(merged, { source: "local" });
+          setChanges([]);
+        },
+
+        discard(): void {
+          const current = path === "" ? data : getValueAtPath(data, path);
+          if (!isTraversable(current) || !isPlainObject(current)) {
+            throw new Error(`Cannot discard the fork: the parent no longer has an object at "${path}".`);
+          }
+          isResetting = true;
+          try {
+            draft.apply((root) => {
+              const target = root as Record<string, unknown>;
+              for (const key of Object.keys(target)) {
+                if (!(key in current)) delete target[key];
+              }
+              for (const [key, item] of Object.entries(current)) {
+                target[key] = cloneValue(item, codecs);
+              }
+            });
+          } finally {
+            isResetting = false;
+          }
+          setChanges([]);
+        },
+      };
+    },
+
+    scope<S extends object>(selector: (root: T) => S): Store<S> {
+      return createScope<T, S>(store, resolveSelection(selector, "scope").path);
+    },
+
+    savepoint(): Savepoint {
+      if (!isInTransaction) {
+        throw new Error("savepoint() can only be called inside apply().");
+      }
+      const state = { position: txRollbacks.length };
+      txSavepoints.push(state);
+      return {
+        rollbackTo(): void {
+          const index = txSavepoints.indexOf(state);
+          if (index === -1) {
+            throw new Error("Savepoint is no longer active: its transaction has ended or was rolled back past it.");
+          }
+          txSavepoints.length = index + 1;
+          rollbackJournal(state.position);
+        },
+      };
+    },
+
+    use(added: Middleware<T>): () => void {
+      middleware.push(added);
+      return () => {
+        const index = middleware.indexOf(added);
+        if (index !== -1) middleware.splice(index, 1);
+      };
+    },
+
+    readonly(): ReadonlyStore<T> {
+      readonlyView ??= createReadonlyStore(store);
+      return readonlyView;
+    },
+
+    action<A extends unknown[], R>(name: string, fn: (...args: A) => R): (...args: A) => R {
+      return (...args: A): R => {
+        let result!: R;
+        runTransaction(() => (result = fn(...args)), { source: "local", action: { name, args } });
+        return result;
+      };
+    },
+
+    asyncAction<A extends unknown[], R>(
+      name: string,
+      fn: (run: ActionRunner, ...args: A) => Promise<R>,
+    ): (...args: A) => Promise<R> {
+      return (...args: A): Promise<R> => {
+        const meta: ChangeMeta = { source: "local", action: { name, args } };
+        const run: ActionRunner = <B>(batch: () => B): B => {
+          let result!: B;
+          runTransaction(() => (result = batch()), meta);
+          return result;
+        };
+        // The synchronous part, up to the first `await`, is a batch of its own like any other call of `run`
+        return run(() => fn(run, ...args));
+      };
     },
 
     trigger<R>(selector: (root: T) => R): void {
       const paths = new Set<string>();
-      const proxy = createTrackingProxy(data, paths, []);
-      selector(proxy);
+      track(selector, paths);
       const leafPaths = getLeafPaths(paths);
       if (leafPaths.size > 0) {
-        notifySubscribers(leafPaths, true);
+        invalidateComputeds(leafPaths);
+        notifySubscribers(new Map([...leafPaths].map((path) => [path, 0])), true);
       }
     },
   };
+
+  return store;
 }
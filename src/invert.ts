@@ -0,0 +1,167 @@
+import type { ArrayChange, Change, MapChange, PropertyChange, SetChange } from "./index";
+import { applyChangeTo, cloneValue, getValueAtPath, normalizeIndex, splitPath } from "./utils";
+
+const REORDERING_METHODS = new Set(["sort", "reverse", "fill", "copyWithin"]);
+
+/**
+ * Computes the data needed to invert an array mutation, given the array contents before the call and the
+ * value returned by the mutator.
+ */
+export function getArrayInverseData(
+  method: string,
+  args: unknown[],
+  before: unknown[],
+  result: unknown,
+): Pick<ArrayChange, "removed" | "index" | "previous"> {
+  switch (method) {
+    case "pop":
+    case "shift":
+      return { removed: before.length > 0 ? [result] : [] };
+    case "splice":
+      return { removed: Array.isArray(result) ? [...result] : [], index: normalizeIndex(args[0], before.length) };
+    default:
+      return REORDERING_METHODS.has(method) ? { previous: before } : {};
+  }
+}
+
+/**
+ * Computes the data needed to invert a property write that changes the length of an array, given the state before
+ * it: a write to `length`, or to an index past the end. Other writes only need `oldValue`.
+ */
+export function getPropertyInverseData(
+  root: object,
+  change: PropertyChange,
+): Pick<PropertyChange, "previousLength" | "removed"> {
+  const [containerPath, key] = splitPath(change.path);
+  const container = getValueAtPath(root, containerPath);
+  if (!Array.isArray(container)) return {};
+  if (key === "length") {
+    return { previousLength: container.length, removed: container.slice(Number(change.value)) };
+  }
+  return Number(key) >= container.length ? { previousLength: container.length } : {};
+}
+
+/**
+ * Computes the data needed to invert a `Map` or `Set` mutation, given the collection before the call: the entries
+ * or members the call overwrites or removes.
+ */
+export function getCollectionInverseData(
+  collection: Map<unknown, unknown> | Set<unknown>,
+  method: string,
+  args: unknown[],
+): Pick<MapChange | SetChange, "previous"> {
+  if (method === "clear") return { previous: [...collection] };
+  if (!collection.has(args[0])) return { previous: [] };
+  return { previous: [collection instanceof Map ? [args[0], collection.get(args[0])] : args[0]] };
+}
+
+/**
+ * Applies `changes` to `state` in place and returns copies of them carrying the inverse data an invertible store
+ * would have recorded.
+ */
+export function recordInverseData(state: object, changes: Change[]): Change[] {
+  return changes.map((change) => {
+    const copy = { ...change };
+    const target = getValueAtPath(state, change.path);
+    if (copy.type === "property") {
+      copy.oldValue = cloneValue(target);
+      Object.assign(copy, cloneValue(getPropertyInverseData(state, copy)));
+    } else if (copy.type === "array") {
+      const before = Array.isArray(target) ? [...target] : [];
+      const result = applyChangeTo(state, cloneValue(change));
+      return Object.assign(copy, cloneValue(getArrayInverseData(copy.method, copy.args, before, result)));
+    } else if (target instanceof Map || target instanceof Set) {
+      Object.assign(copy, cloneValue(getCollectionInverseData(target, copy.method, copy.args)));
+    }
+    applyChangeTo(state, cloneValue(change));
+    return copy;
+  });
+}
+
+function missingInverseData(change: Change): Error {
+  return new Error(
+    `Cannot invert ${change.type} change at path "${change.path}": inverse data is missing. ` +
+      `Create the store with { invertible: true }.`,
+  );
+}
+
+/** Inverts a write that changed an array's length as a `splice` that restores the length and the elements cut off. */
+function invertLengthChange(change: PropertyChange & { previousLength: number }): Change {
+  const [path, key] = splitPath(change.path);
+  const length = key === "length" ? Number(change.value) : Number(key) + 1;
+  const index = Math.min(change.previousLength, length);
+  const added = Math.max(length - change.previousLength, 0);
+  // What the splice removes again: the holes the write left, and the written element itself
+  const removed: unknown[] = new Array(added).fill(undefined);
+  if (key !== "length" && added > 0) removed[added - 1] = change.value;
+  const restored = change.removed ?? [];
+  return { type: "array", path, method: "splice", args: [index, added, ...restored], removed, index };
+}
+
+function invertArrayChange(change: ArrayChange): Change {
+  const { path, method, args } = change;
+
+  switch (method) {
+    case "push":
+      return { type: "array", path, method: "splice", args: [-args.length, args.length] };
+    case "unshift":
+      return { type: "array", path, method: "splice", args: [0, args.length] };
+    case "pop":
+      if (!change.removed) throw missingInverseData(change);
+      return { type: "array", path, method: "push", args: [...change.removed] };
+    case "shift":
+      if (!change.removed) throw missingInverseData(change);
+      return { type: "array", path, method: "unshift", args: [...change.removed] };
+    case "splice": {
+      if (!change.removed || change.index === undefined) throw missingInverseData(change);
+      const inserted = Math.max(args.length - 2, 0);
+      return { type: "array", path, method: "splice", args: [change.index, inserted, ...change.removed] };
+    }
+    default:
+      if (!change.previous) throw missingInverseData(change);
+      return { type: "array", path, method: "splice", args: [0, change.previous.length, ...change.previous] };
+  }
+}
+
+function invertCollectionChange(change: MapChange | SetChange): Change[] {
+  const { path, method, args } = change;
+  if (!change.previous) throw missingInverseData(change);
+
+  if (change.type === "set") {
+    if (method === "add") {
+      // Adding a member that was already present changed nothing
+      return change.previous.length === 0 ? [{ type: "set", path, method: "delete", args: [args[0]] }] : [];
+    }
+    return change.previous.map((member) => ({ type: "set", path, method: "add", args: [member] }));
+  }
+
+  if (method === "set" && change.previous.length === 0) {
+    return [{ type: "map", path, method: "delete", args: [args[0]] }];
+  }
+  // Re-added entries move to the end of the Map
+  return change.previous.map(([key, value]) => ({ type: "map", path, method: "set", args: [key, value] }));
+}
+
+/**
+ * Produces the changes that undo `changes`. Passing the result to `applyChanges` restores the state that existed
+ * before `changes` were made. Requires the inverse data recorded by stores created with `{ invertible: true }`.
+ */
+export function invertChanges(changes: Change[]): Change[] {
+  const inverse: Change[] = [];
+  for (let i = changes.length - 1; i >= 0; i--) {
+    const change = changes[i]!;
+    if (change.type === "property") {
+      if (!("oldValue" in change)) throw missingInverseData(change);
+      if (change.previousLength !== undefined) {
+        inverse.push(invertLengthChange(change as PropertyChange & { previousLength: number }));
+        continue;
+      }
+      inverse.push({ type: "property", path: change.path, value: change.oldValue, oldValue: change.value });
+    } else if (change.type === "array") {
+      inverse.push(invertArrayChange(change));
+    } else {
+      inverse.push(...invertCollectionChange(change));
+    }
+  }
+  return inverse;
+}
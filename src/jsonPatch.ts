@@ -0,0 +1,292 @@
+import type { ArrayChange, Change, PropertyChange } from "./index";
+import {
+  applyChangeTo,
+  cloneValue,
+  decodePath,
+  deepEqual,
+  encodePath,
+  getValueAtPath,
+  normalizeIndex,
+  splitPath,
+} from "./utils";
+
+/** A single RFC 6902 JSON Patch operation. */
+export type JsonPatchOperation =
+  | { op: "add"; path: string; value: unknown }
+  | { op: "remove"; path: string }
+  | { op: "replace"; path: string; value: unknown }
+  | { op: "move"; from: string; path: string }
+  | { op: "copy"; from: string; path: string }
+  | { op: "test"; path: string; value: unknown };
+
+// --- RFC 6901 JSON Pointers ---
+
+function pathToPointer(path: string): string {
+  return decodePath(path)
+    .map((segment) => "/" + segment.replace(/~/g, "~0").replace(/\//g, "~1"))
+    .join("");
+}
+
+function pointerToPath(pointer: string): string {
+  if (pointer === "") {
+    throw new Error(`JSON Patch operations on the document root are not supported.`);
+  }
+  if (!pointer.startsWith("/")) {
+    throw new Error(`Invalid JSON Pointer "${pointer}".`);
+  }
+  return encodePath(
+    pointer
+      .slice(1)
+      .split("/")
+      .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~")),
+  );
+}
+
+function getContainer(root: object, parentPath: string): unknown {
+  return parentPath === "" ? root : getValueAtPath(root, parentPath);
+}
+
+function requiresBase(change: Change): Error {
+  return new Error(
+    `Cannot convert ${change.type === "array" ? `"${change.method}" ` : ""}change at path "${change.path}" ` +
+      `to JSON Patch without the base state.`,
+  );
+}
+
+// --- Change -> JSON Patch ---
+
+function propertyToOps(change: PropertyChange, working: object | undefined): JsonPatchOperation[] {
+  const pointer = pathToPointer(change.path);
+  const [parentPath, key] = splitPath(change.path);
+  const container = working ? getContainer(working, parentPath) : undefined;
+
+  // Length of the array written to, if the write may change it. Without state, only invertible stores record it
+  let previousLength: number | undefined;
+  if (working) {
+    if (Array.isArray(container)) previousLength = container.length;
+  } else if (change.previousLength !== undefined) {
+    previousLength = change.previousLength;
+  } else if (key === "length" && !("oldValue" in change)) {
+    // An invertible store's change would say if this is an array's length; without one it could be either
+    throw requiresBase(change);
+  }
+
+  // Setting `length` or an index past the end resizes an array, which JSON Patch can only express element by
+  // element. The holes a resize leaves are `null` in JSON
+  if (previousLength !== undefined && (key === "length" || Number(key) >= previousLength)) {
+    const parentPointer = pathToPointer(parentPath);
+    const newLength = key === "length" ? Number(change.value) : Number(key) + 1;
+    const ops: JsonPatchOperation[] = [];
+    for (let i = previousLength - 1; i >= newLength; i--) {
+      ops.push({ op: "remove", path: `${parentPointer}/${i}` });
+    }
+    for (let i = previousLength; i < newLength; i++) {
+      const value = i === Number(key) ? cloneValue(change.value ?? null) : null;
+      ops.push({ op: "add", path: `${parentPointer}/${i}`, value });
+    }
+    return ops;
+  }
+
+  let exists: boolean | undefined;
+  if (working) {
+    exists = container !== null && typeof container === "object" && key in container;
+  } else if ("oldValue" in change) {
+    exists = change.oldValue !== undefined;
+  }
+
+  // Without state, assume numeric keys address existing array elements
+  const isElement = working ? Array.isArray(container) : /^\d+$/.test(key);
+  if (change.value === undefined) {
+    if (exists === false) return [];
+    // Deleting an element leaves a hole, which JSON has as `null`; removing it would shift the later elements
+    return [isElement ? { op: "replace", path: pointer, value: null } : { op: "remove", path: pointer }];
+  }
+  const replace = exists ?? isElement;
+  return [{ op: replace ? "replace" : "add", path: pointer, value: cloneValue(change.value) }];
+}
+
+function arrayToOps(change: ArrayChange, working: object | undefined): JsonPatchOperation[] {
+  const pointer = pathToPointer(change.path);
+  const arr = working ? getValueAtPath(working, change.path) : undefined;
+  const length = Array.isArray(arr) ? arr.length : undefined;
+  const args = cloneValue(change.args);
+  const at = (index: number | "-") => `${pointer}/${index}`;
+
+  switch (change.method) {
+    case "push":
+      return args.map((value) => ({ op: "add", path: at("-"), value }));
+    case "unshift":
+      return args.map((value, i) => ({ op: "add", path: at(i), value }));
+    case "pop": {
+      const count = length ?? change.removed?.length;
+      if (count === undefined || (length === undefined && count > 0)) throw requiresBase(change);
+      return count > 0 ? [{ op: "remove", path: at(count - 1) }] : [];
+    }
+    case "shift": {
+      const isEmpty = length !== undefined ? length === 0 : change.removed?.length === 0;
+      return isEmpty ? [] : [{ op: "remove", path: at(0) }];
+    }
+    case "splice": {
+      const [rawStart, rawDeleteCount, ...items] = args;
+      let start: number;
+      if (change.index !== undefined) {
+        start = change.index;
+      } else if (length !== undefined) {
+        start = normalizeIndex(rawStart, length);
+      } else if (args.length === 0 || (Number.isInteger(rawStart) && (rawStart as number) >= 0)) {
+        start = (rawStart as number | undefined) ?? 0;
+      } else {
+        throw requiresBase(change);
+      }
+
+      let deleteCount: number;
+      if (change.removed) {
+        deleteCount = change.removed.length;
+      } else if (args.length === 0) {
+        deleteCount = 0;
+      } else if (length !== undefined) {
+        const requested = args.length === 1 ? Infinity : Math.trunc(Number(rawDeleteCount)) || 0;
+        deleteCount = Math.min(Math.max(requested, 0), length - start);
+      } else if (args.length >= 2) {
+        deleteCount = Math.max(Math.trunc(Number(rawDeleteCount)) || 0, 0);
+      } else {
+        throw requiresBase(change);
+      }
+
+      const ops: JsonPatchOperation[] = [];
+      for (let i = 0; i < deleteCount; i++) {
+        ops.push({ op: "remove", path: at(start) });
+      }
+      items.forEach((value, i) => ops.push({ op: "add", path: at(start + i), value }));
+      return ops;
+    }
+    default: {
+      // sort, reverse, fill, copyWithin: replace every element that ends up different
+      const before = Array.isArray(arr) ? [...arr] : change.previous ? [...change.previous] : undefined;
+      if (!before) throw requiresBase(change);
+      const after = cloneValue(before);
+      const method = after[change.method as keyof unknown[]];
+      if (typeof method !== "function") {
+        throw new Error(`Unsupported array method "${change.method}" at path "${change.path}".`);
+      }
+      (method as Function).apply(after, args);
+
+      const ops: JsonPatchOperation[] = [];
+      for (let i = 0; i < after.length; i++) {
+        if (!deepEqual(before[i], after[i])) {
+          ops.push({ op: "replace", path: at(i), value: after[i] });
+        }
+      }
+      return ops;
+    }
+  }
+}
+
+/**
+ * Converts store changes into RFC 6902 JSON Patch operations. Array method calls and writes that resize an array are
+ * expanded into index-level operations. Pass `base` — the state the changes were made against — to resolve indexes
+ * for `sort`, `reverse`, `fill`, `copyWithin`, relative `splice` calls and writes to `length` or past the end; without
+ * it the inverse data of changes emitted by invertible stores is used, and an error is thrown if neither is
+ * available. A `pop` that removed an element always needs `base`, since no change records the index it removed
+ * from. `Map` and `Set` changes have no JSON Patch equivalent and throw.
+ */
+export function toJsonPatch(changes: Change[], base?: object): JsonPatchOperation[] {
+  const working = base === undefined ? undefined : cloneValue(base);
+  const ops: JsonPatchOperation[] = [];
+  for (const change of changes) {
+    if (change.type === "map" || change.type === "set") {
+      throw new Error(`Cannot convert ${change.type} change at path "${change.path}" to JSON Patch.`);
+    }
+    ops.push(...(change.type === "property" ? propertyToOps(change, working) : arrayToOps(change, working)));
+    if (working) applyChangeTo(working, cloneValue(change));
+  }
+  return ops;
+}
+
+// --- JSON Patch -> Change ---
+
+/**
+ * Converts RFC 6902 JSON Patch operations into store changes. Pass `base` — the state the patch applies to — to
+ * tell array elements from object keys and to evaluate `move`, `copy` and `test`. Without it, numeric and `-`
+ * segments are treated as array indexes.
+ */
+export function fromJsonPatch(ops: JsonPatchOperation[], base?: object): Change[] {
+  const working = base === undefined ? undefined : cloneValue(base);
+  const changes: Change[] = [];
+
+  function emit(change: Change): void {
+    changes.push(change);
+    if (working) applyChangeTo(working, cloneValue(change));
+  }
+
+  function read(pointer: string): unknown {
+    if (!working) {
+      throw new Error(`Cannot read JSON Pointer "${pointer}" without the base state.`);
+    }
+    const [parentPath, key] = splitPath(pointerToPath(pointer));
+    const container = getContainer(working, parentPath);
+    if (container === null || typeof container !== "object" || !(key in container)) {
+      throw new Error(`JSON Pointer "${pointer}" does not exist.`);
+    }
+    return cloneValue((container as Record<string, unknown>)[key]);
+  }
+
+  function isArrayElement(parentPath: string, key: string): boolean {
+    if (working) return Array.isArray(getContainer(working, parentPath));
+    return key === "-" || /^\d+$/.test(key);
+  }
+
+  function add(pointer: string, value: unknown): void {
+    const path = pointerToPath(pointer);
+    const [parentPath, key] = splitPath(path);
+    if (!isArrayElement(parentPath, key)) {
+      emit({ type: "property", path, value });
+    } else if (key === "-") {
+      emit({ type: "array", path: parentPath, method: "push", args: [value] });
+    } else {
+      emit({ type: "array", path: parentPath, method: "splice", args: [Number(key), 0, value] });
+    }
+  }
+
+  function remove(pointer: string): void {
+    const path = pointerToPath(pointer);
+    const [parentPath, key] = splitPath(path);
+    if (isArrayElement(parentPath, key)) {
+      emit({ type: "array", path: parentPath, method: "splice", args: [Number(key), 1] });
+    } else {
+      emit({ type: "property", path, value: undefined });
+    }
+  }
+
+  for (const op of ops) {
+    switch (op.op) {
+      case "add":
+        add(op.path, cloneValue(op.value));
+        break;
+      case "remove":
+        remove(op.path);
+        break;
+      case "replace":
+        emit({ type: "property", path: pointerToPath(op.path), value: cloneValue(op.value) });
+        break;
+      case "move": {
+        const value = read(op.from);
+        remove(op.from);
+        add(op.path, value);
+        break;
+      }
+      case "copy":
+        add(op.path, read(op.from));
+        break;
+      case "test":
+        if (!deepEqual(read(op.path), op.value)) {
+          throw new Error(`JSON Patch test failed at "${op.path}".`);
+        }
+        break;
+      default:
+        throw new Error(`Unknown JSON Patch operation "${(op as { op: string }).op}".`);
+    }
+  }
+
+  return changes;
+}
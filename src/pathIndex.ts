@@ -0,0 +1,86 @@
+import { decodePath } from "./utils";
+
+interface PathIndexNode<V> {
+  children: Map<string, PathIndexNode<V>>;
+  values: Set<V>;
+}
+
+/** A segment trie that maps paths to the values registered on them. */
+export interface PathIndex<V> {
+  add(path: string, value: V): void;
+  delete(path: string, value: V): void;
+  /**
+   * Adds every value registered on `path`, on one of its ancestors, or anywhere below it to `into`. Below `path`,
+   * subtrees under an array index before `firstIndex` are skipped.
+   */
+  collect(path: string, into: Set<V>, firstIndex?: number): void;
+}
+
+const INDEX = /^\d+$/;
+
+function createNode<V>(): PathIndexNode<V> {
+  return { children: new Map(), values: new Set() };
+}
+
+function collectSubtree<V>(node: PathIndexNode<V>, into: Set<V>): void {
+  for (const value of node.values) {
+    into.add(value);
+  }
+  for (const child of node.children.values()) {
+    collectSubtree(child, into);
+  }
+}
+
+export function createPathIndex<V>(): PathIndex<V> {
+  const root = createNode<V>();
+
+  return {
+    add(path: string, value: V): void {
+      let node = root;
+      for (const segment of decodePath(path)) {
+        let child = node.children.get(segment);
+        if (!child) {
+          child = createNode();
+          node.children.set(segment, child);
+        }
+        node = child;
+      }
+      node.values.add(value);
+    },
+
+    delete(path: string, value: V): void {
+      const trail: [PathIndexNode<V>, string][] = [];
+      let node = root;
+      for (const segment of decodePath(path)) {
+        const child = node.children.get(segment);
+        if (!child) return;
+        trail.push([node, segment]);
+        node = child;
+      }
+      node.values.delete(value);
+
+      // Prune nodes that no longer hold anything so the trie does not grow with every path ever seen
+      for (let i = trail.length - 1; i >= 0; i--) {
+        const [parent, segment] = trail[i]!;
+        const child = parent.children.get(segment)!;
+        if (child.values.size > 0 || child.children.size > 0) break;
+        parent.children.delete(segment);
+      }
+    },
+
+    collect(path: string, into: Set<V>, firstIndex = 0): void {
+      let node: PathIndexNode<V> | undefined = root;
+      for (const segment of decodePath(path)) {
+        node = node.children.get(segment);
+        if (!node) return;
+        for (const value of node.values) {
+          into.add(value);
+        }
+      }
+      for (const [segment, child] of node.children) {
+        if (firstIndex > 0 && INDEX.test(segment) && Number(segment) < firstIndex) continue;
+        collectSubtree(child, into);
+      }
+    },
+  };
+}
@@ -0,0 +1,313 @@
+import { decodeValue, encodeValue } from "./codecs";
+import type { Change, Store } from "./index";
+import { deserialize, serialize } from "./serialize";
+import { assertSerializable } from "./serializable";
+import { encodePath, getValueAtPath, isPathAffected, setValueAtPath } from "./utils";
+
+/** Storage backend used by `persist`. Methods may be synchronous or return promises. */
+export interface StorageAdapter {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+export interface PersistOptions {
+  adapter: StorageAdapter;
+  /** Key the state is stored under. */
+  key: string;
+  /** Paths of the subtrees to persist, e.g. `["settings", "user.preferences"]`. Defaults to the whole state. */
+  paths?: string[];
+  /** Wait until no change has been made for this long before writing. Defaults to 0, which writes every batch. */
+  debounceMs?: number;
+  /** Called when a background write fails. Defaults to `console.error`. */
+  onError?: (error: unknown) => void;
+  /** Version of the persisted state's shape. Saved with the state. Defaults to 1. */
+  version?: number;
+  /**
+   * Migrations by the version they produce. `migrations[3]` turns state of version 2 into version 3. Stored state
+   * older than `version` is passed through each migration in turn during hydration.
+   */
+  migrations?: Record<number, (state: any) => unknown>;
+}
+
+/** Thrown (by rejecting `hydrated`) when stored state cannot be migrated to the current version. */
+export class MigrationError extends Error {
+  constructor(
+    message: string,
+    /** Version of the stored state. */
+    readonly fromVersion: number,
+    /** Version the failing step should have produced. */
+    readonly toVersion: number,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = "MigrationError";
+  }
+}
+
+export interface Persistence {
+  /**
+   * Resolves once stored state has been applied to the store. Rejects if it could not be read, parsed or migrated
+   * (with a `MigrationError`); nothing is written then, so the stored state is kept until `clear()` is called.
+   */
+  readonly hydrated: Promise<void>;
+  /** Writes pending changes immediately. Resolves once everything written so far has been stored. */
+  flush(): Promise<void>;
+  /** Removes the stored state. After a failed hydration, this also resumes writing. */
+  clear(): Promise<void>;
+  /** Stops persisting changes. Pending writes are dropped; call `flush()` first to keep them. */
+  dispose(): void;
+}
+
+/** The document written to storage. */
+interface PersistedDocument {
+  /** Missing in documents written before versioning was introduced, which count as version 1. */
+  version?: number;
+  state: Record<string, unknown>;
+}
+
+function isPromise<V>(value: V | Promise<V>): value is Promise<V> {
+  return typeof (value as Promise<V> | null)?.then === "function";
+}
+
+/** Keeps state in memory. Useful for tests and server-side rendering. */
+export function createMemoryAdapter(initial: Record<string, string> = {}): StorageAdapter {
+  const items = new Map(Object.entries(initial));
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+/** Stores state in `localStorage`, `sessionStorage` or any object with the same synchronous interface. */
+export function createKeyValueAdapter(storage: StorageAdapter | undefined = globalThis.localStorage): StorageAdapter {
+  if (!storage) {
+    throw new Error("No key-value storage is available. Pass a storage object such as localStorage.");
+  }
+  return {
+    getItem: (key) => storage.getItem(key),
+    setItem: (key, value) => storage.setItem(key, value),
+    removeItem: (key) => storage.removeItem(key),
+  };
+}
+
+/** Stores each key as a JSON file in `directory` (Node.js only). Files are replaced atomically. */
+export function createFileAdapter(directory: string): StorageAdapter {
+  const fileFor = (key: string) => `${directory}/${encodeURIComponent(key)}.json`;
+  const fs = () => import("node:fs/promises");
+
+  return {
+    async getItem(key) {
+      try {
+        return await (await fs()).readFile(fileFor(key), "utf8");
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw e;
+      }
+    },
+
+    async setItem(key, value) {
+      const { mkdir, rename, writeFile } = await fs();
+      const file = fileFor(key);
+      await mkdir(directory, { recursive: true });
+      await writeFile(`${file}.tmp`, value, "utf8");
+      await rename(`${file}.tmp`, file);
+    },
+
+    async removeItem(key) {
+      await (await fs()).rm(fileFor(key), { force: true });
+    },
+  };
+}
+
+/**
+ * Saves store state to storage and restores it. Stored state is applied with `applyChanges` as soon as it has been
+ * read, synchronously for synchronous adapters; paths missing from storage keep the store's initial state. After that,
+ * every change batch that touches a persisted path schedules a write of the persisted subtrees.
+ */
+export function persist<T extends object>(store: Store<T>, options: PersistOptions): Persistence {
+  const { adapter, key, debounceMs = 0, onError = console.error, version = 1, migrations = {} } = options;
+  const paths = options.paths ?? [];
+
+  let isHydrating = true;
+  let hydrationFailed = false;
+  let isApplying = false;
+  let isDirty = false;
+  let disposed = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  // Writes are chained so they reach storage in order
+  let writing: Promise<void> = Promise.resolve();
+
+  function read(): PersistedDocument {
+    const state = encodeValue(store.snapshot(), store.codecs) as Record<string, unknown>;
+    if (paths.length === 0) return { version, state };
+
+    const picked: Record<string, unknown> = {};
+    for (const path of paths) {
+      const value = getValueAtPath(state, path);
+      if (value !== undefined) setValueAtPath(picked, path, value);
+    }
+    return { version, state: picked };
+  }
+
+  /** Brings stored state up to the current version. Returns it encoded, the way `applyChanges` expects it. */
+  function migrate(document: PersistedDocument): Record<string, unknown> {
+    const from = document.version ?? 1;
+    if (from === version) return document.state;
+    if (from > version) {
+      throw new MigrationError(
+        `Stored state has version ${from}, which is newer than the current version ${version}.`,
+        from,
+        version,
+      );
+    }
+
+    let state: unknown = decodeValue(document.state, store.codecs);
+    for (let next = from + 1; next <= version; next++) {
+      const migration = migrations[next];
+      if (!migration) {
+        throw new MigrationError(
+          `Cannot migrate stored state: no migration to version ${next} is defined.`,
+          from,
+          next,
+        );
+      }
+      try {
+        state = migration(state);
+      } catch (e) {
+        throw new MigrationError(`Migration to version ${next} failed.`, from, next, { cause: e });
+      }
+      if (state === null || typeof state !== "object" || Array.isArray(state)) {
+        throw new MigrationError(`Migration to version ${next} did not return an object.`, from, next);
+      }
+    }
+
+    try {
+      assertSerializable(state, "root", store.codecs);
+    } catch (e) {
+      throw new MigrationError(
+        `Migrating stored state from version ${from} to ${version} produced invalid state: ${(e as Error).message}`,
+        from,
+        version,
+        { cause: e },
+      );
+    }
+    // Save the migrated state so the migrations do not run again
+    isDirty = true;
+    return encodeValue(state, store.codecs) as Record<string, unknown>;
+  }
+
+  function write(): Promise<void> {
+    clearTimeout(timer);
+    timer = undefined;
+    if (!isDirty || disposed || isHydrating) return writing;
+    isDirty = false;
+    const text = serialize(read());
+    const result = writing.then(() => adapter.setItem(key, text));
+    writing = result.catch(() => {});
+    return result;
+  }
+
+  function schedule(): void {
+    isDirty = true;
+    if (isHydrating) return;
+    if (debounceMs <= 0) {
+      write().catch(onError);
+      return;
+    }
+    clearTimeout(timer);
+    timer = setTimeout(() => write().catch(onError), debounceMs);
+  }
+
+  function hydrate(text: string | null): void {
+    if (disposed) return;
+    if (text !== null) {
+      const state = migrate(deserialize<PersistedDocument>(text));
+      const changes: Change[] = [];
+      const selected = paths.length > 0 ? paths : Object.keys(state).map((key) => encodePath([key]));
+      for (const path of selected) {
+        const value = getValueAtPath(state, path);
+        if (value !== undefined) changes.push({ type: "property", path, value });
+      }
+      isApplying = true;
+      try {
+        store.applyChanges(changes);
+      } finally {
+        isApplying = false;
+      }
+    }
+    finishHydration();
+  }
+
+  function finishHydration(): void {
+    isHydrating = false;
+    if (isDirty) schedule();
+  }
+
+  // Batches a change subscriber rolls back must not reach storage, so writes wait for the commit
+  const unsubscribe = store.subscribeToChanges(
+    (changes) => {
+      if (isApplying) return;
+      const touched =
+        paths.length === 0 || changes.some((change) => paths.some((path) => isPathAffected(path, change.path)));
+      if (touched) schedule();
+    },
+    { afterCommit: true },
+  );
+
+  let hydrated: Promise<void>;
+  try {
+    const stored = adapter.getItem(key);
+    if (isPromise(stored)) {
+      hydrated = stored.then(hydrate);
+    } else {
+      hydrate(stored);
+      hydrated = Promise.resolve();
+    }
+  } catch (e) {
+    hydrated = Promise.reject(e);
+  }
+  // A failed hydration leaves writes suspended, so stored state that could not be loaded is not overwritten
+  hydrated.catch(() => {
+    hydrationFailed = true;
+  });
+
+  return {
+    hydrated,
+
+    flush(): Promise<void> {
+      return write();
+    },
+
+    clear(): Promise<void> {
+      clearTimeout(timer);
+      timer = undefined;
+      isDirty = false;
+      const result = writing.then(() => adapter.removeItem(key));
+      writing = result.catch(() => {});
+      if (hydrationFailed) {
+        // Writing can resume once the state that could not be loaded is gone
+        hydrationFailed = false;
+        void result.then(
+          () => {
+            isDirty = true;
+            finishHydration();
+          },
+          () => {},
+        );
+      }
+      return result;
+    },
+
+    dispose(): void {
+      disposed = true;
+      clearTimeout(timer);
+      unsubscribe();
+    },
+  };
+}
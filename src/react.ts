@@ -0,0 +1,149 @@
+import {
+  createContext,
+  createElement,
+  useCallback,
+  useContext,
+  useLayoutEffect,
+  useRef,
+  useSyncExternalStore,
+  type ReactNode,
+} from "react";
+import type { DeepReadonly, ReadonlyStore, Store } from "./index";
+
+/** Holds the store provided by the nearest `StoreProvider`. */
+export const StoreContext = createContext<Store<any> | null>(null);
+
+export interface StoreProviderProps<T> {
+  store: Store<T>;
+  children?: ReactNode;
+}
+
+/** Makes `store` available to `useStoreContext` and `useStoreRoot` in the components below. */
+export function StoreProvider<T>({ store, children }: StoreProviderProps<T>): ReactNode {
+  return createElement(StoreContext.Provider, { value: store }, children);
+}
+
+/** Returns the store provided by the nearest `StoreProvider`. Throws if there is none. */
+export function useStoreContext<T>(): Store<T> {
+  const store = useContext(StoreContext);
+  if (!store) {
+    throw new Error("useStoreContext() must be used inside a StoreProvider.");
+  }
+  return store as Store<T>;
+}
+
+/** Returns the writable root of the provided store, or of `store` when given. Does not re-render on changes. */
+export function useStoreRoot<T>(store?: Store<T>): T {
+  const contextStore = useContext(StoreContext);
+  const resolved = store ?? (contextStore as Store<T> | null);
+  if (!resolved) {
+    throw new Error("useStoreRoot() must be used inside a StoreProvider or be given a store.");
+  }
+  return resolved.root;
+}
+
+/** The value a `useStore` hook rendered, and what it was computed from. */
+interface Selection<R> {
+  value: R;
+  version: number;
+  store: unknown;
+  selector: unknown;
+  /** The store's change count when the value was computed. */
+  changeCount: number;
+}
+
+// Batches each store has emitted since a `useStore` first used it, to detect changes between a render and its subscription
+const changeCounts = new WeakMap<object, { count: number }>();
+
+function getChangeCounter(store: Store<unknown> | ReadonlyStore<unknown>): { count: number } {
+  let counter = changeCounts.get(store);
+  if (!counter) {
+    const created = { count: 0 };
+    store.subscribeToChanges(() => created.count++);
+    changeCounts.set(store, created);
+    counter = created;
+  }
+  return counter;
+}
+
+/** Whether a re-evaluated selector result counts as unchanged for `useStore`. */
+function isUnchanged<R>(a: R, b: R, equals: (a: R, b: R) => boolean): boolean {
+  // The same object from the state after a change to a path the selector read was mutated in place
+  if (Object.is(a, b) && typeof a === "object" && a !== null) return false;
+  return equals(a, b);
+}
+
+/**
+ * Returns the value `selector` picks from `store` and re-renders when it changes. Only changes to the paths the
+ * selector read on its last run are considered, like `store.subscribe`, and a new result that `equals` (defaults
+ * to `Object.is`) considers unchanged does not re-render. Objects from the state are live, so a selector returning
+ * one re-renders whenever anything inside it changes.
+ *
+ * Built on `useSyncExternalStore`, with a version that store notifications bump as the external snapshot; the
+ * selection is computed once per version, so selectors may build new arrays or objects. A selector that changes
+ * between renders is re-subscribed with; pass a stable one (e.g. from `useCallback`) to avoid that.
+ */
+export function useStore<T, R>(store: Store<T>, selector: (root: T) => R, equals?: (a: R, b: R) => boolean): R;
+export function useStore<T, R>(
+  store: ReadonlyStore<T>,
+  selector: (root: DeepReadonly<T>) => R,
+  equals?: (a: R, b: R) => boolean,
+): R;
+export function useStore<R>(
+  store: Store<unknown> | ReadonlyStore<unknown>,
+  selector: (root: any) => R,
+  equals: (a: R, b: R) => boolean = Object.is,
+): R {
+  const equalsRef = useRef(equals);
+  // Bumped by every notification of the store subscription
+  const versionRef = useRef(0);
+  const selectionRef = useRef<Selection<R> | null>(null);
+
+  useLayoutEffect(() => {
+    equalsRef.current = equals;
+  });
+
+  const counter = getChangeCounter(store);
+
+  const subscribe = useCallback(
+    (onStoreChange: () => void) => {
+      const notify = () => {
+        versionRef.current++;
+        onStoreChange();
+      };
+      const unsubscribe = store.subscribe(selector, notify, {
+        equals: (a, b) => isUnchanged(a, b, equalsRef.current),
+        fireImmediately: false,
+      });
+      // The store changed between the render and the subscription
+      const rendered = selectionRef.current;
+      if (rendered && rendered.changeCount !== counter.count) notify();
+      return unsubscribe;
+    },
+    [store, selector, counter],
+  );
+
+  const getSnapshot = (): Selection<R> => {
+    const selection = selectionRef.current;
+    const version = versionRef.current;
+    if (selection && selection.version === version && selection.store === store && selection.selector === selector) {
+      return selection;
+    }
+    const value = selector(store.root);
+    // Keep the previous result while it counts as unchanged, so a new selector alone does not re-render
+    const isSame =
+      selection !== null &&
+      (selection.version === version ? equals(selection.value, value) : isUnchanged(selection.value, value, equals));
+    const next = {
+      value: isSame ? selection.value : value,
+      version,
+      store,
+      selector,
+      changeCount: counter.count,
+    };
+    selectionRef.current = next;
+    return next;
+  };
+
+  return useSyncExternalStore(subscribe, getSnapshot, getSnapshot).value;
+}
@@ -0,0 +1,127 @@
+import { findCodec } from "./codecs";
+import type { DeepReadonly, ReadonlyStore, Store } from "./index";
+import { encodePath, isCollectionKey, joinPath, keyToSegment } from "./utils";
+
+const MUTATORS = {
+  array: new Set(["push", "pop", "shift", "unshift", "splice", "sort", "reverse", "fill", "copyWithin"]),
+  map: new Set(["set", "delete", "clear"]),
+  set: new Set(["add", "delete", "clear"]),
+};
+
+function readonlyError(action: string, path: string): Error {
+  return new Error(`Cannot ${action} "${path}": this is a read-only view of the store.`);
+}
+
+/**
+ * Creates a read-only view of `store`. Its `root`, and the root it passes to selectors and effects, wrap the store's
+ * proxies in proxies that throw on writes, deletes and mutating methods; everything else delegates to the store.
+ */
+export function createReadonlyStore<T>(store: Store<T>): ReadonlyStore<T> {
+  // Keyed by the store's proxies, which are themselves cached per object, so every object gets one read-only proxy.
+  // Selectors get tracking proxies, which are created per read; their entries go away with them.
+  const proxyCache = new WeakMap<object, object>();
+
+  function wrap(value: unknown, path: string): unknown {
+    if (value === null || typeof value !== "object" || findCodec(value, store.codecs)) return value;
+    let proxy = proxyCache.get(value);
+    if (!proxy) {
+      proxy = createReadonlyProxy(value, path);
+      proxyCache.set(value, proxy);
+    }
+    return proxy;
+  }
+
+  function wrapRoot(root: T): DeepReadonly<T> {
+    return wrap(root, "") as DeepReadonly<T>;
+  }
+
+  function childPath(path: string, key: PropertyKey): string {
+    return joinPath(path, encodePath([String(key)]));
+  }
+
+  function getCollectionMember(collection: Map<unknown, unknown> | Set<unknown>, prop: PropertyKey, path: string) {
+    const value: unknown = Reflect.get(collection, prop);
+    if (typeof value !== "function") return value;
+    const isMap = collection instanceof Map;
+    if (typeof prop === "string" && MUTATORS[isMap ? "map" : "set"].has(prop)) {
+      return () => {
+        throw readonlyError(`call ${prop}() on`, path);
+      };
+    }
+    if (!isMap) return value.bind(collection);
+
+    const map = collection;
+    const wrapEntry = (key: unknown, item: unknown) =>
+      isCollectionKey(key) ? wrap(item, childPath(path, keyToSegment(key))) : item;
+    switch (prop) {
+      case "get":
+        return (key: unknown) => wrapEntry(key, map.get(key));
+      case "forEach":
+        return (callback: (value: unknown, key: unknown, map: unknown) => void, thisArg?: unknown) => {
+          map.forEach((item, key) => callback.call(thisArg, wrapEntry(key, item), key, wrap(map, path)));
+        };
+      case "values":
+        return function* () {
+          for (const [key, item] of map) yield wrapEntry(key, item);
+        };
+      case "entries":
+      case Symbol.iterator:
+        return function* () {
+          for (const [key, item] of map) yield [key, wrapEntry(key, item)];
+        };
+      default:
+        return value.bind(map);
+    }
+  }
+
+  function createReadonlyProxy(target: object, path: string): object {
+    return new Proxy(target, {
+      get(obj, prop, receiver) {
+        if (obj instanceof Map || obj instanceof Set) return getCollectionMember(obj, prop, path);
+        const value: unknown = Reflect.get(obj, prop);
+        if (typeof value === "function" && Array.isArray(obj)) {
+          if (typeof prop === "string" && MUTATORS.array.has(prop)) {
+            return () => {
+              throw readonlyError(`call ${prop}() on`, path);
+            };
+          }
+          // The store binds array methods to the raw array; binding the prototype's method to this proxy instead
+          // makes callbacks of methods like `map` receive read-only elements
+          return (Reflect.get(Array.prototype, prop) as Function).bind(receiver);
+        }
+        if (typeof value === "function") return value;
+        return typeof prop === "symbol" ? value : wrap(value, childPath(path, prop));
+      },
+
+      set(_obj, prop) {
+        throw readonlyError("set", childPath(path, prop));
+      },
+
+      deleteProperty(_obj, prop) {
+        throw readonlyError("delete", childPath(path, prop));
+      },
+
+      defineProperty(_obj, prop) {
+        throw readonlyError("define", childPath(path, prop));
+      },
+    });
+  }
+
+  return {
+    get root(): DeepReadonly<T> {
+      return wrapRoot(store.root);
+    },
+
+    codecs: store.codecs,
+
+    snapshot: () => store.snapshot(),
+
+    subscribe: (selector, callback, options) => store.subscribe((root) => selector(wrapRoot(root)), callback, options),
+
+    subscribeToChanges: (callback, options) => store.subscribeToChanges(callback, options),
+
+    computed: (selector) => store.computed((root) => selector(wrapRoot(root))),
+
+    effect: (fn) => store.effect((root) => fn(wrapRoot(root))),
+  };
+}
@@ -0,0 +1,229 @@
+import type { ArrayChange, Change } from "./index";
+import {
+  applyChangeTo,
+  cloneValue,
+  decodePath,
+  encodePath,
+  getChangedPath,
+  getValueAtPath,
+  normalizeIndex,
+} from "./utils";
+
+export interface RebaseOptions {
+  /**
+   * State both sides' changes were made against. Needed to resolve positions that depend on it, like the index a
+   * `push` appends at; without it, changes must already be normalized (see `normalizeChanges`).
+   */
+  base?: object;
+  /**
+   * Which side's write is kept when both wrote the same path, and goes last when both inserted at the same array
+   * position. Defaults to `"local"`. Replicas only converge if they agree, e.g. by letting the change a server
+   * ordered later win, which is the local one for the replica rebasing remote changes onto unconfirmed local ones.
+   */
+  winner?: "local" | "remote";
+}
+
+type Splice = ArrayChange & { method: "splice" };
+
+/**
+ * Rewrites `changes` into a form that does not depend on the state they are applied to: array mutations become
+ * `splice` calls at absolute indexes, and reorderings (`sort`, `reverse`, `fill`, `copyWithin`) become a write of the
+ * whole array. Index writes past the end of an array and `length` writes are converted the same way. `base` is the
+ * state the changes apply to; it is not modified.
+ */
+export function normalizeChanges(changes: Change[], base: object): Change[] {
+  return normalizeOnto(cloneValue(base), changes);
+}
+
+/** Like `normalizeChanges`, but applies the changes to `state` in place. Copies of the values are applied. */
+export function normalizeOnto(state: object, changes: Change[]): Change[] {
+  const normalized: Change[] = [];
+  for (const change of changes) {
+    const result = normalizeChange(state, change);
+    for (const item of result) {
+      applyChangeTo(state, cloneValue(item));
+    }
+    normalized.push(...result);
+  }
+  return normalized;
+}
+
+function splice(path: string, index: number, deleteCount: number, items: unknown[] = []): Splice {
+  return { type: "array", path, method: "splice", args: [index, deleteCount, ...items] };
+}
+
+/** Normalizes a single change against `state` without applying it. See `normalizeChanges`. */
+export function normalizeChange(state: object, change: Change): Change[] {
+  if (change.type === "property") {
+    const segments = decodePath(change.path);
+    const key = segments[segments.length - 1]!;
+    const parentPath = encodePath(segments.slice(0, -1));
+    const parent = segments.length > 1 ? getValueAtPath(state, parentPath) : state;
+    if (!Array.isArray(parent)) return [change];
+
+    if (key === "length") {
+      const length = Number(change.value);
+      if (length < parent.length) return [splice(parentPath, length, parent.length - length)];
+    } else if (!/^\d+$/.test(key) || Number(key) < parent.length) {
+      return [change];
+    } else if (Number(key) === parent.length) {
+      return [splice(parentPath, parent.length, 0, [change.value])];
+    }
+    // Growing an array leaves holes, which only a write of the whole array describes
+    const grown = cloneValue(parent);
+    applyChangeTo({ value: grown }, { ...change, path: encodePath(["value", key]) });
+    return [{ type: "property", path: parentPath, value: grown }];
+  }
+  if (change.type !== "array") return [change];
+
+  const arr = getValueAtPath(state, change.path);
+  if (!Array.isArray(arr)) return [change];
+  const { path, args } = change;
+  const length = arr.length;
+
+  switch (change.method) {
+    case "push":
+      return args.length > 0 ? [splice(path, length, 0, args)] : [];
+    case "unshift":
+      return args.length > 0 ? [splice(path, 0, 0, args)] : [];
+    case "pop":
+      return length > 0 ? [splice(path, length - 1, 1)] : [];
+    case "shift":
+      return length > 0 ? [splice(path, 0, 1)] : [];
+    case "splice": {
+      if (args.length === 0) return [];
+      const start = normalizeIndex(args[0], length);
+      const deleteCount =
+        args.length < 2 ? length - start : Math.min(Math.max(Math.trunc(Number(args[1])) || 0, 0), length - start);
+      const items = args.slice(2);
+      return deleteCount > 0 || items.length > 0 ? [splice(path, start, deleteCount, items)] : [];
+    }
+    default: {
+      const reordered = cloneValue(arr);
+      applyChangeTo({ value: reordered }, { ...change, path: "value" });
+      return [{ type: "property", path, value: reordered }];
+    }
+  }
+}
+
+/** Whether a change replaces the value at its changed path, as opposed to editing an array in place. */
+function replaces(change: Change): boolean {
+  return change.type !== "array";
+}
+
+function isPrefix(prefix: string[], segments: string[]): boolean {
+  return prefix.length <= segments.length && prefix.every((segment, i) => segment === segments[i]);
+}
+
+/** Transforms `a` so it applies after `b`, where both were made against the same state. */
+function transformOne(a: Change, b: Change, aWins: boolean): Change[] {
+  const target = decodePath(getChangedPath(a));
+
+  if (replaces(b)) {
+    const replaced = decodePath(getChangedPath(b));
+    if (!isPrefix(replaced, target)) return [a];
+    // A write supersedes concurrent edits inside the value it replaces; writes to the same path keep the winner's
+    if (replaced.length < target.length || !replaces(a)) return [];
+    return aWins ? [a] : [];
+  }
+
+  // Otherwise `b` is a normalized splice
+  const arrayPath = decodePath(b.path);
+  const [start, deleteCount, ...inserted] = (b as Splice).args as [number, number, ...unknown[]];
+  if (a.type === "array" && a.method === "splice" && a.path === b.path) {
+    return transformSplice(a as Splice, b as Splice, aWins);
+  }
+
+  const segments = decodePath(a.path);
+  if (segments.length <= arrayPath.length || !isPrefix(arrayPath, segments)) return [a];
+  const segment = segments[arrayPath.length]!;
+  if (!/^\d+$/.test(segment)) return [a];
+  const index = Number(segment);
+  if (index < start) return [a];
+  // The element `a` edits was removed
+  if (index < start + deleteCount) return [];
+  segments[arrayPath.length] = String(index - deleteCount + inserted.length);
+  return [{ ...a, path: encodePath(segments) }];
+}
+
+function transformSplice(a: Splice, b: Splice, aWins: boolean): Change[] {
+  const [aStart, aDeleteCount, ...aItems] = a.args as [number, number, ...unknown[]];
+  const [bStart, bDeleteCount, ...bItems] = b.args as [number, number, ...unknown[]];
+  const bEnd = bStart + bDeleteCount;
+  const shift = bItems.length - bDeleteCount;
+
+  // Where a's items go: next to b's when a inserts inside the range b replaced, in a fixed order on ties
+  const aFirst = aStart < bStart || (aStart === bStart && !aWins);
+  let insertAt: number;
+  if (aStart < bStart) {
+    insertAt = aStart;
+  } else if (aStart > bEnd) {
+    insertAt = aStart + shift;
+  } else {
+    insertAt = bStart + (aFirst ? 0 : bItems.length);
+  }
+
+  // Elements a removes that b did not remove already, on either side of b's range
+  const leftCount = Math.max(0, Math.min(aStart + aDeleteCount, bStart) - aStart);
+  const rightStart = Math.max(aStart, bEnd);
+  const rightCount = Math.max(0, aStart + aDeleteCount - rightStart);
+
+  const result: Splice[] = [];
+  if (rightCount > 0) result.push(splice(a.path, rightStart + shift, rightCount));
+  if (leftCount > 0) result.push(splice(a.path, aStart, leftCount));
+  if (aItems.length > 0) {
+    const last = result[result.length - 1];
+    if (last && last.args[0] === insertAt) {
+      last.args.push(...aItems);
+    } else {
+      result.push(splice(a.path, insertAt, 0, aItems));
+    }
+  }
+  return result;
+}
+
+/**
+ * Transforms two lists of normalized changes made concurrently against the same state, returning `[a', b']` such that
+ * applying `b` then `a'` gives the same state as applying `a` then `b'`.
+ */
+function transformLists(a: Change[], b: Change[], aWins: boolean): [Change[], Change[]] {
+  if (a.length === 0 || b.length === 0) return [a, b];
+  if (a.length > 1) {
+    const [first, firstB] = transformLists([a[0]!], b, aWins);
+    const [rest, restB] = transformLists(a.slice(1), firstB, aWins);
+    return [[...first, ...rest], restB];
+  }
+  if (b.length > 1) {
+    const [firstA, first] = transformLists(a, [b[0]!], aWins);
+    const [restA, rest] = transformLists(firstA, b.slice(1), aWins);
+    return [restA, [...first, ...rest]];
+  }
+  return [transformOne(a[0]!, b[0]!, aWins), transformOne(b[0]!, a[0]!, !aWins)];
+}
+
+/**
+ * Transforms `remote` and `local`, two change lists made concurrently against the same state, so each can be applied
+ * after the other. Returns `[remote', local']`: applying `local` then `remote'` gives the same state as applying
+ * `remote` then `local'`.
+ *
+ * Array indexes are shifted past the other side's insertions and removals, including indexes inside paths such as
+ * `items.3.title`. Edits to elements the other side removed, or inside values it replaced, are dropped. When both
+ * sides wrote the same path, the winner's write is kept.
+ */
+export function transformChanges(remote: Change[], local: Change[], options: RebaseOptions = {}): [Change[], Change[]] {
+  const { base, winner = "local" } = options;
+  if (base) {
+    remote = normalizeChanges(remote, base);
+    local = normalizeChanges(local, base);
+  }
+  return transformLists(remote, local, winner === "remote");
+}
+
+/**
+ * Rebases `remote` changes onto `local` ones that were made concurrently against the same state, e.g. local
+ * changes the server has not acknowledged yet. The result can be applied with `applyChanges` on top of the local
+ * state. See `transformChanges`.
+ */
+export function rebaseChanges(remote: Change[], local: Change[], options: RebaseOptions = {}): Change[] {
+  return transformChanges(remote, local, options)[0];
+}
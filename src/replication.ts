@@ -0,0 +1,476 @@
+import { encodeValue } from "./codecs";
+import type { Change, Store } from "./index";
+import { normalizeOnto, rebaseChanges, transformChanges } from "./rebase";
+import { snapshotToChanges } from "./sync";
+import { cloneValue, createId } from "./utils";
+
+/** Messages exchanged between a replication server and its clients. They are plain data; see `serialize` for text. */
+export type ReplicationMessage =
+  // client -> server
+  | { type: "sync"; clientId: string; seq?: number }
+  | { type: "submit"; id: number; base: number; changes: Change[] }
+  | { type: "ack"; seq: number }
+  // server -> client
+  | { type: "snapshot"; seq: number; submitted: number; state: Record<string, unknown> }
+  | { type: "batch"; seq: number; origin: string | null; id: number; changes: Change[] }
+  | { type: "accepted"; id: number; seq: number }
+  | { type: "rejected"; id: number; error: string };
+
+/** One end of a websocket-like, message-ordered connection. Messages may be lost; acks and resends recover them. */
+export interface ReplicationConnection {
+  send(message: ReplicationMessage): void;
+  /** Registers the message handler. Returns a function that removes it. */
+  onMessage(listener: (message: ReplicationMessage) => void): () => void;
+}
+
+export interface ReplicationServerOptions {
+  /** Number of recent batches kept for resending to clients that missed them. Defaults to 1000. */
+  historyLimit?: number;
+  /** How often batches a client has not acknowledged are sent again, in milliseconds. Defaults to 1000. */
+  resendIntervalMs?: number;
+}
+
+export interface ReplicationServer {
+  /** Sequence number of the latest batch. */
+  readonly seq: number;
+  /** Starts serving a client over `connection`. Returns a function that stops serving it. */
+  connect(connection: ReplicationConnection): () => void;
+  /** Disconnects every client and stops replicating. */
+  dispose(): void;
+}
+
+export interface ReplicationClientOptions {
+  /** Identifies the client across reconnects, so the server never applies a resent batch twice. Random by default. */
+  clientId?: string;
+  /** How often unconfirmed local batches and unanswered requests are sent again, in milliseconds. Defaults to 1000. */
+  resendIntervalMs?: number;
+  /** Called when the server rejects a local batch. The client then resyncs to the server's state. */
+  onReject?: (error: string, changes: Change[]) => void;
+}
+
+export interface ReplicationClient {
+  /** Resolves once the first snapshot from the server has been applied. */
+  readonly ready: Promise<void>;
+  /** Sequence number of the latest server batch applied. */
+  readonly seq: number;
+  /** Number of local batches the server has not confirmed yet. */
+  readonly pending: number;
+  /** Replaces the local state with a fresh snapshot from the server. Unconfirmed local batches are kept. */
+  resync(): void;
+  /** Stops replicating and detaches from the connection. */
+  dispose(): void;
+}
+
+export interface LoopbackOptions {
+  /** Return `false` to drop a message, e.g. to simulate a flaky network. */
+  filter?: (message: ReplicationMessage, to: "client" | "server") => boolean;
+}
+
+/**
+ * Creates a connected pair of in-memory connections. Messages are copied with `structuredClone` and delivered
+ * asynchronously, in order, like over a real socket.
+ */
+export function createLoopback(options: LoopbackOptions = {}): {
+  client: ReplicationConnection;
+  server: ReplicationConnection;
+} {
+  const listeners = {
+    client: new Set<(message: ReplicationMessage) => void>(),
+    server: new Set<(message: ReplicationMessage) => void>(),
+  };
+
+  function createEnd(self: "client" | "server"): ReplicationConnection {
+    const to = self === "client" ? "server" : "client";
+    return {
+      send(message) {
+        if (options.filter && !options.filter(message, to)) return;
+        const copy = structuredClone(message);
+        queueMicrotask(() => {
+          for (const listener of listeners[to]) {
+            listener(copy);
+          }
+        });
+      },
+      onMessage(listener) {
+        listeners[self].add(listener);
+        return () => listeners[self].delete(listener);
+      },
+    };
+  }
+
+  return { client: createEnd("client"), server: createEnd("server") };
+}
+
+interface ServedClient {
+  connection: ReplicationConnection;
+  /** Set by the client's first `sync` message. */
+  clientId: string | null;
+  /** Latest batch the client has acknowledged. */
+  acked: number;
+}
+
+type Batch = Extract<ReplicationMessage, { type: "batch" }>;
+
+interface PendingBatch {
+  id: number;
+  changes: Change[];
+  /** Whether `changes` are normalized against the confirmed state and the pending batches before them. */
+  normalized: boolean;
+  /** Set once the server has applied the batch; it is confirmed when the client has caught up to this sequence number. */
+  acceptedSeq?: number;
+}
+
+/**
+ * Makes `store` the authoritative copy of state mirrored by replication clients. Every change batch, whether made
+ * on the server or submitted by a client, is numbered and sent to all clients. A submitted batch is rebased onto the
+ * batches the client had not seen when it made it (see `rebaseChanges`). Recent batches are kept so clients that
+ * missed some can catch up; clients that fall further behind receive a full snapshot instead.
+ */
+export function createReplicationServer<T extends object>(
+  store: Store<T>,
+  options: ReplicationServerOptions = {},
+): ReplicationServer {
+  const { historyLimit = 1000, resendIntervalMs = 1000 } = options;
+
+  let seq = 0;
+  let disposed = false;
+  // Batches are logged normalized, so submissions can be rebased onto them
+  const log: Batch[] = [];
+  // The state batches were normalized against, in the encoded form they travel in
+  const state = encodeValue(store.snapshot(), store.codecs) as object;
+  const clients = new Set<ServedClient>();
+  // Submissions handled per client id, kept across reconnects so resent submissions are not applied twice
+  const submissions = new Map<string, { last: number; rejected: Map<number, string> }>();
+  // Set while a submission is applied, so the batch it commits is published as the client's
+  let submission: { clientId: string; id: number } | null = null;
+
+  function sendSnapshot(client: ServedClient): void {
+    const state = encodeValue(store.snapshot(), store.codecs) as Record<string, unknown>;
+    client.connection.send({ type: "snapshot", seq, submitted: submissions.get(client.clientId!)?.last ?? 0, state });
+    // Should the snapshot be lost, the client asks for it again
+    client.acked = seq;
+  }
+
+  /** Sends the batches after `from`, or a snapshot if some of them are no longer in the log. */
+  function catchUp(client: ServedClient, from: number): void {
+    if (from >= seq) return;
+    if (!isLogged(from)) {
+      sendSnapshot(client);
+      return;
+    }
+    for (const batch of log) {
+      if (batch.seq > from) client.connection.send(batch);
+    }
+  }
+
+  /** Whether every batch after `from` is still in the log. */
+  function isLogged(from: number): boolean {
+    return from >= seq || from + 1 >= log[0]!.seq;
+  }
+
+  function onSubmit(client: ServedClient, message: Extract<ReplicationMessage, { type: "submit" }>): void {
+    const { id, base } = message;
+    const clientId = client.clientId!;
+    let handled = submissions.get(clientId);
+    if (!handled) {
+      handled = { last: 0, rejected: new Map() };
+      submissions.set(clientId, handled);
+    }
+    if (id <= handled.last) {
+      // A resend of a submission already handled; its answer was lost
+      const error = handled.rejected.get(id);
+      client.connection.send(error === undefined ? { type: "accepted", id, seq } : { type: "rejected", id, error });
+      return;
+    }
+    // An earlier submission was lost; the client resends them in order
+    if (id !== handled.last + 1) return;
+    if (!isLogged(base)) {
+      // Too old to rebase; the client re-applies the batch on top of the snapshot and submits it again
+      sendSnapshot(client);
+      return;
+    }
+
+    handled.last = id;
+    // The batch was made before the client saw the batches after `base`; it wins conflicts as the later one
+    const concurrent = log.filter((batch) => batch.seq > base).flatMap((batch) => batch.changes);
+    const changes = rebaseChanges(message.changes, concurrent, { winner: "remote" });
+    submission = { clientId, id };
+    try {
+      store.applyChanges(changes);
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      handled.rejected.set(id, error);
+      client.connection.send({ type: "rejected", id, error });
+      return;
+    } finally {
+      submission = null;
+    }
+    client.connection.send({ type: "accepted", id, seq });
+  }
+
+  function onMessage(client: ServedClient, message: ReplicationMessage): void {
+    if (message.type === "sync") {
+      client.clientId = message.clientId;
+      if (message.seq === undefined) {
+        sendSnapshot(client);
+      } else {
+        client.acked = Math.max(client.acked, message.seq);
+        catchUp(client, message.seq);
+      }
+    } else if (client.clientId === null) {
+      // Nothing is accepted before the client has introduced itself
+    } else if (message.type === "submit") {
+      onSubmit(client, message);
+    } else if (message.type === "ack") {
+      client.acked = Math.max(client.acked, message.seq);
+    }
+  }
+
+  function publish(origin: string | null, id: number, changes: Change[]): void {
+    const batch: Batch = { type: "batch", seq: ++seq, origin, id, changes: normalizeOnto(state, cloneValue(changes)) };
+    log.push(batch);
+    if (log.length > historyLimit) log.shift();
+    for (const client of clients) {
+      if (client.clientId !== null) client.connection.send(batch);
+    }
+  }
+
+  // Only committed batches are published: one a change subscriber rejects never happened
+  const unsubscribe = store.subscribeToChanges(
+    (changes) => {
+      publish(submission?.clientId ?? null, submission?.id ?? 0, changes);
+      submission = null;
+    },
+    { afterCommit: true },
+  );
+
+  const timer = setInterval(() => {
+    for (const client of clients) {
+      if (client.clientId !== null) catchUp(client, client.acked);
+    }
+  }, resendIntervalMs);
+
+  return {
+    get seq() {
+      return seq;
+    },
+
+    connect(connection: ReplicationConnection): () => void {
+      if (disposed) throw new Error("Cannot connect to a disposed replication server.");
+      const client: ServedClient = { connection, clientId: null, acked: 0 };
+      clients.add(client);
+      const removeListener = connection.onMessage((message) => onMessage(client, message));
+      return () => {
+        if (!clients.delete(client)) return;
+        removeListener();
+      };
+    },
+
+    dispose(): void {
+      if (disposed) return;
+      disposed = true;
+      clearInterval(timer);
+      unsubscribe();
+      clients.clear();
+    },
+  };
+}
+
+/**
+ * Mirrors the state of a replication server in `store`. Local changes are applied immediately and submitted to the
+ * server one batch at a time; server batches are applied in sequence order and acknowledged. Server batches that
+ * arrive while local batches are unconfirmed are rebased onto them, so concurrent edits merge instead of corrupting
+ * array indexes. A client that misses batches asks the server to send them again, and falls back to a full snapshot
+ * when the server no longer has them.
+ */
+export function createReplicationClient<T extends object>(
+  store: Store<T>,
+  connection: ReplicationConnection,
+  options: ReplicationClientOptions = {},
+): ReplicationClient {
+  const { clientId = createId(), resendIntervalMs = 1000, onReject } = options;
+
+  let seq = 0;
+  let disposed = false;
+  let awaitingSnapshot = true;
+  // Set while applying server data, so it is not submitted back
+  let isApplying = false;
+  let nextId = 1;
+  // The server's state as of `seq`, in encoded form
+  let confirmed: object = {};
+  // Local batches the server has not confirmed yet, in order; only the first one is submitted
+  const pending: PendingBatch[] = [];
+  // Batches received ahead of a missing one
+  const buffered = new Map<number, Batch>();
+  let resolveReady!: () => void;
+  const ready = new Promise<void>((resolve) => {
+    resolveReady = resolve;
+  });
+
+  function send(message: ReplicationMessage): void {
+    if (!disposed) connection.send(message);
+  }
+
+  function apply(changes: Change[]): void {
+    isApplying = true;
+    try {
+      store.applyChanges(cloneValue(changes));
+    } finally {
+      isApplying = false;
+    }
+  }
+
+  function requestSnapshot(): void {
+    awaitingSnapshot = true;
+    send({ type: "sync", clientId });
+  }
+
+  /** Normalizes pending batches against the confirmed state, so they can be rebased and submitted. */
+  function normalizePending(): void {
+    if (pending.every((batch) => batch.normalized)) return;
+    const state = cloneValue(confirmed);
+    for (const batch of pending) {
+      batch.changes = normalizeOnto(state, batch.changes);
+      batch.normalized = true;
+    }
+  }
+
+  function submit(): void {
+    const batch = pending[0];
+    if (!batch || batch.acceptedSeq !== undefined || awaitingSnapshot) return;
+    normalizePending();
+    send({ type: "submit", id: batch.id, base: seq, changes: batch.changes });
+  }
+
+  function confirm(): void {
+    pending.shift();
+    submit();
+  }
+
+  function onSnapshot(message: Extract<ReplicationMessage, { type: "snapshot" }>): void {
+    if (!awaitingSnapshot && message.seq < seq) return;
+    apply(snapshotToChanges(message.state, Object.keys(store.root)));
+    confirmed = cloneValue(message.state);
+    seq = message.seq;
+    awaitingSnapshot = false;
+    // Local batches the server had not applied yet when it took the snapshot go back on top of it
+    const unconfirmed = pending.splice(0).filter((batch) => batch.id > message.submitted);
+    for (const batch of unconfirmed) {
+      try {
+        apply(batch.changes);
+        pending.push({ id: batch.id, changes: batch.changes, normalized: false });
+      } catch {
+        // No longer applies to the server's state
+      }
+    }
+    resolveReady();
+    drain();
+    submit();
+  }
+
+  function onBatch(batch: Batch): void {
+    seq = batch.seq;
+    if (batch.origin === clientId && batch.id === pending[0]?.id) {
+      // The server's version of the submitted batch, which the local state already contains
+      normalizeOnto(confirmed, batch.changes);
+      confirm();
+      return;
+    }
+    normalizePending();
+    let remote = batch.changes;
+    for (const local of pending) {
+      [remote, local.changes] = transformChanges(remote, local.changes);
+    }
+    normalizeOnto(confirmed, batch.changes);
+    try {
+      apply(remote);
+    } catch {
+      requestSnapshot();
+    }
+  }
+
+  /** Applies buffered batches that are next in sequence, then acknowledges them or asks for the missing ones. */
+  function drain(): void {
+    for (const stale of buffered.keys()) {
+      if (stale <= seq) buffered.delete(stale);
+    }
+    if (awaitingSnapshot) return;
+    let next: Batch | undefined;
+    while ((next = buffered.get(seq + 1))) {
+      buffered.delete(next.seq);
+      onBatch(next);
+    }
+    // A submission that changed nothing on the server produces no batch
+    const first = pending[0];
+    if (first?.acceptedSeq !== undefined && seq >= first.acceptedSeq) confirm();
+    send({ type: "ack", seq });
+    if (buffered.size > 0) send({ type: "sync", clientId, seq });
+  }
+
+  const removeListener = connection.onMessage((message) => {
+    if (disposed) return;
+    if (message.type === "snapshot") {
+      onSnapshot(message);
+    } else if (message.type === "batch") {
+      if (message.seq > seq) buffered.set(message.seq, message);
+      drain();
+    } else if (message.type === "accepted" || message.type === "rejected") {
+      const first = pending[0];
+      if (first?.id !== message.id) return;
+      if (message.type === "accepted") {
+        first.acceptedSeq = message.seq;
+        drain();
+      } else {
+        // Local state still contains the rejected batch
+        pending.shift();
+        onReject?.(message.error, first.changes);
+        requestSnapshot();
+      }
+    }
+  });
+
+  // Batches a change subscriber rolls back are not submitted
+  const unsubscribe = store.subscribeToChanges(
+    (changes) => {
+      if (isApplying) return;
+      pending.push({ id: nextId++, changes: cloneValue(changes), normalized: false });
+      if (pending.length === 1) submit();
+    },
+    { afterCommit: true },
+  );
+
+  const timer = setInterval(() => {
+    if (awaitingSnapshot) {
+      send({ type: "sync", clientId });
+    } else if (buffered.size > 0) {
+      send({ type: "sync", clientId, seq });
+    }
+    submit();
+  }, resendIntervalMs);
+
+  requestSnapshot();
+
+  return {
+    ready,
+
+    get seq() {
+      return seq;
+    },
+
+    get pending() {
+      return pending.length;
+    },
+
+    resync(): void {
+      if (!disposed) requestSnapshot();
+    },
+
+    dispose(): void {
+      if (disposed) return;
+      disposed = true;
+      clearInterval(timer);
+      unsubscribe();
+      removeListener();
+    },
+  };
+}
@@ -0,0 +1,209 @@
+import { decodePath, encodePath, isCollectionKey, isPlainObject, joinPath, keyToSegment } from "./utils";
+
+/** Thrown when a value does not match the schema a store was created with. */
+export class StoreValidationError extends Error {
+  constructor(
+    /** Path of the invalid value, e.g. `"user.age"`. Empty for the root. */
+    readonly path: string,
+    /** The type the schema expects there, e.g. `"number"` or `"string | undefined"`. */
+    readonly expected: string,
+    /** The rejected value. */
+    readonly received: unknown,
+  ) {
+    super(`Invalid value at path "${path}": expected ${expected}, received ${describeValue(received)}.`);
+    this.name = "StoreValidationError";
+  }
+}
+
+/** Describes the values allowed at a place in the state. Created with the `s` helpers. */
+export interface Schema<V = unknown> {
+  /** The expected type, as shown in error messages. */
+  readonly expected: string;
+  /** Throws a `StoreValidationError` for the first part of `value` that does not match. `path` is where it is stored. */
+  validate(value: unknown, path: string): void;
+  /** The schema of the value stored under `segment`, or `undefined` if nothing may be stored there. */
+  child(segment: string): Schema | undefined;
+  /** Never set; carries the type of the accepted values for `Infer`. */
+  readonly type?: V;
+}
+
+/** The type of the values a schema accepts. */
+export type Infer<S> = S extends Schema<infer V> ? V : never;
+
+function describeValue(value: unknown): string {
+  if (value === undefined) return "undefined";
+  if (value === null) return "null";
+  if (typeof value === "string") return JSON.stringify(value);
+  if (typeof value === "bigint") return `${value}n`;
+  if (typeof value !== "object") return String(value);
+  if (Array.isArray(value)) return "an array";
+  if (value instanceof Map) return "a Map";
+  if (value instanceof Set) return "a Set";
+  if (value instanceof Date) return "a Date";
+  return "an object";
+}
+
+function childPath(path: string, key: string): string {
+  return joinPath(path, encodePath([key]));
+}
+
+function primitive<V>(expected: string, test: (value: unknown) => boolean): Schema<V> {
+  return {
+    expected,
+    validate(value, path): void {
+      if (!test(value)) throw new StoreValidationError(path, expected, value);
+    },
+    child: () => undefined,
+  };
+}
+
+// Where the schema allows nothing, only deletions (writes of `undefined`) are valid
+const nothing = primitive<undefined>("undefined", (value) => value === undefined);
+
+const anything: Schema<any> = {
+  expected: "any",
+  validate(): void {},
+  child: () => anything,
+};
+
+/** Returns the schema of the value at `path`, accepting only `undefined` where `schema` allows nothing. */
+export function schemaAt(schema: Schema, path: string): Schema {
+  let current: Schema | undefined = schema;
+  for (const segment of path === "" ? [] : decodePath(path)) {
+    current = current.child(segment);
+    if (!current) return nothing;
+  }
+  return current;
+}
+
+type Shape = Record<string, Schema>;
+
+/** Helpers to describe the shape of a store's state, e.g. `s.object({ name: s.string(), age: s.optional(s.number()) })`. */
+export const s = {
+  string: (): Schema<string> => primitive("string", (value) => typeof value === "string"),
+  number: (): Schema<number> => primitive("number", (value) => typeof value === "number"),
+  boolean: (): Schema<boolean> => primitive("boolean", (value) => typeof value === "boolean"),
+  /** `bigint` values; the store needs `bigintCodec` to hold them. */
+  bigint: (): Schema<bigint> => primitive("bigint", (value) => typeof value === "bigint"),
+  /** Valid `Date` instances; the store needs `dateCodec` to hold them. */
+  date: (): Schema<Date> => primitive("Date", (value) => value instanceof Date && !Number.isNaN(value.getTime())),
+  literal: <V extends string | number | boolean | null>(literal: V): Schema<V> =>
+    primitive(JSON.stringify(literal), (value) => value === literal),
+  /** Accepts any value, and anything inside it. */
+  any: (): Schema<any> => anything,
+
+  optional<V>(inner: Schema<V>): Schema<V | undefined> {
+    return {
+      expected: `${inner.expected} | undefined`,
+      validate(value, path): void {
+        if (value !== undefined) inner.validate(value, path);
+      },
+      child: (segment) => inner.child(segment),
+    };
+  },
+
+  nullable<V>(inner: Schema<V>): Schema<V | null> {
+    return {
+      expected: `${inner.expected} | null`,
+      validate(value, path): void {
+        if (value !== null) inner.validate(value, path);
+      },
+      child: (segment) => inner.child(segment),
+    };
+  },
+
+  /** Accepts values matching any of `options`. A mismatch is reported at the union's path. */
+  union<O extends Schema[]>(...options: O): Schema<Infer<O[number]>> {
+    const expected = options.map((option) => option.expected).join(" | ");
+    return {
+      expected,
+      validate(value, path): void {
+        for (const option of options) {
+          try {
+            option.validate(value, path);
+            return;
+          } catch (e) {
+            if (!(e instanceof StoreValidationError)) throw e;
+          }
+        }
+        throw new StoreValidationError(path, expected, value);
+      },
+      child(segment) {
+        const children = options.flatMap((option) => option.child(segment) ?? []);
+        return children.length > 1 ? s.union(...children) : children[0];
+      },
+    };
+  },
+
+  array<V>(item: Schema<V>): Schema<V[]> {
+    const length = s.number();
+    return {
+      expected: `${item.expected}[]`,
+      validate(value, path): void {
+        if (!Array.isArray(value)) throw new StoreValidationError(path, `${item.expected}[]`, value);
+        // Holes are checked too: they read as `undefined`
+        for (let i = 0; i < value.length; i++) {
+          item.validate(value[i], childPath(path, String(i)));
+        }
+      },
+      child: (segment) => (segment === "length" ? length : /^\d+$/.test(segment) ? item : undefined),
+    };
+  },
+
+  /** Plain objects with exactly the keys of `shape`. Keys whose schema accepts `undefined` may be missing. */
+  object<S extends Shape>(shape: S): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+    return {
+      expected: "object",
+      validate(value, path): void {
+        if (!isPlainObject(value)) throw new StoreValidationError(path, "object", value);
+        for (const [key, schema] of Object.entries(shape)) {
+          schema.validate(value[key], childPath(path, key));
+        }
+        for (const key of Object.keys(value)) {
+          if (!Object.hasOwn(shape, key)) nothing.validate(value[key], childPath(path, key));
+        }
+      },
+      child: (segment) => (Object.hasOwn(shape, segment) ? shape[segment] : undefined),
+    };
+  },
+
+  /** Plain objects with any keys, whose values match `value`. */
+  record<V>(value: Schema<V>): Schema<Record<string, V>> {
+    return {
+      expected: `Record<string, ${value.expected}>`,
+      validate(record, path): void {
+        if (!isPlainObject(record)) throw new StoreValidationError(path, `Record<string, ${value.expected}>`, record);
+        for (const [key, item] of Object.entries(record)) {
+          value.validate(item, childPath(path, key));
+        }
+      },
+      child: () => value,
+    };
+  },
+
+  map<V>(value: Schema<V>): Schema<Map<string | number | boolean | null, V>> {
+    return {
+      expected: `Map<${value.expected}>`,
+      validate(map, path): void {
+        if (!(map instanceof Map)) throw new StoreValidationError(path, `Map<${value.expected}>`, map);
+        for (const [key, item] of map) {
+          if (isCollectionKey(key)) value.validate(item, childPath(path, keyToSegment(key)));
+        }
+      },
+      child: () => value,
+    };
+  },
+
+  set<V extends string | number | boolean | null>(member: Schema<V>): Schema<Set<V>> {
+    return {
+      expected: `Set<${member.expected}>`,
+      validate(set, path): void {
+        if (!(set instanceof Set)) throw new StoreValidationError(path, `Set<${member.expected}>`, set);
+        for (const item of set) {
+          member.validate(item, isCollectionKey(item) ? childPath(path, keyToSegment(item)) : path);
+        }
+      },
+      child: () => member,
+    };
+  },
+};
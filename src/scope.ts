@@ -0,0 +1,210 @@
+import { encodeValue } from "./codecs";
+import type { Change, ChangeCallback, Middleware, ReadonlyStore, Store, SubscribeToChangesOptions } from "./index";
+import { fromJsonPatch } from "./jsonPatch";
+import { createReadonlyStore } from "./readonly";
+import { snapshotToChanges } from "./sync";
+import { cloneValue, decodePath, getChangedPath, isPlainObject, joinPath, segmentToKey } from "./utils";
+
+/** Follows `segments` from `value`, reading `Map` entries by key. */
+function descend(value: unknown, segments: string[]): unknown {
+  let current = value;
+  for (const segment of segments) {
+    if (current === null || typeof current !== "object") return undefined;
+    current =
+      current instanceof Map ? current.get(segmentToKey(segment)) : (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * Creates a view of `store` rooted at the object at `path`. The view does not hold the object itself: it looks it up
+ * by path whenever it is used, so it keeps working after the object is replaced.
+ */
+export function createScope<T extends object, S extends object>(store: Store<T>, path: string): Store<S> {
+  const segments = path === "" ? [] : decodePath(path);
+  const select = (root: T) => descend(root, segments) as S;
+
+  function getRoot(): S {
+    const value = select(store.root);
+    if (!isPlainObject(value)) {
+      throw new Error(`Scope "${path}" no longer has an object to work on.`);
+    }
+    return value;
+  }
+
+  /** Maps a change relative to the scope to the parent's path. */
+  function toParent<C extends Change>(change: C): C {
+    return { ...change, path: joinPath(path, change.path) };
+  }
+
+  /** Maps a parent change strictly inside the scope to a change relative to it; `undefined` if it is not inside. */
+  function toScope<C extends Change>(change: C): C | undefined {
+    if (path === "") return change;
+    if (!change.path.startsWith(path + ".")) return undefined;
+    return { ...change, path: change.path.slice(path.length + 1) };
+  }
+
+  // --- change subscribers ---
+
+  const changeSubscribers = new Set<ChangeCallback>();
+  const commitSubscribers = new Set<ChangeCallback>();
+  // Each parent batch translated by the first pass, for the `afterCommit` pass that gets the same batch later
+  const translations = new WeakMap<Change[], Change[]>();
+  // Keys of the scoped object as of the last batch, so replacing it can be described as changes to its keys
+  let knownKeys = new Set<string>();
+  let unsubscribeParent: (() => void) | null = null;
+  let unsubscribeParentCommits: (() => void) | null = null;
+
+  /** The scoped object a change to it or to one of its ancestors leaves behind, encoded like emitted changes. */
+  function replacementValue(change: Change, changedPath: string): unknown {
+    const rest = changedPath === "" ? segments : segments.slice(decodePath(changedPath).length);
+    if (change.type === "property") return descend(change.value, rest);
+    if (change.type === "map" && change.method === "set") return descend(change.args[1], rest);
+    // Deletions and array mutations of an ancestor: only the state after the batch tells what is there now
+    const current = select(store.root);
+    return encodeValue(cloneValue(current, store.codecs), store.codecs);
+  }
+
+  function translate(changes: Change[]): Change[] {
+    const translated: Change[] = [];
+    for (const change of changes) {
+      const relative = toScope(change);
+      if (relative) {
+        const key = decodePath(relative.path);
+        if (relative.type === "property" && key.length === 1) {
+          if (relative.value === undefined) knownKeys.delete(key[0]!);
+          else knownKeys.add(key[0]!);
+        }
+        translated.push(relative);
+        continue;
+      }
+      const changedPath = getChangedPath(change);
+      if (changedPath !== path && changedPath !== "" && !path.startsWith(changedPath + ".")) continue;
+
+      const value = replacementValue(change, changedPath);
+      const state = isPlainObject(value) ? value : {};
+      translated.push(...snapshotToChanges(state, [...knownKeys]));
+      knownKeys = new Set(Object.keys(state));
+    }
+    return translated;
+  }
+
+  function watchParent(): void {
+    const current = select(store.root);
+    knownKeys = new Set(isPlainObject(current) ? Object.keys(current) : []);
+    unsubscribeParent = store.subscribeToChanges((changes, meta) => {
+      const translated = translate(changes);
+      translations.set(changes, translated);
+      if (translated.length === 0) return;
+      for (const callback of [...changeSubscribers]) {
+        callback(translated, meta);
+      }
+    });
+    unsubscribeParentCommits = store.subscribeToChanges(
+      (changes, meta) => {
+        const translated = translations.get(changes);
+        if (!translated || translated.length === 0) return;
+        for (const callback of [...commitSubscribers]) {
+          callback(translated, meta);
+        }
+      },
+      { afterCommit: true },
+    );
+  }
+
+  let readonlyView: ReadonlyStore<S> | undefined;
+
+  const scope: Store<S> = {
+    get root(): S {
+      return getRoot();
+    },
+
+    codecs: store.codecs,
+
+    snapshot(): S {
+      return cloneValue(getRoot(), store.codecs);
+    },
+
+    subscribe(selector, callback, options) {
+      return store.subscribe((root) => selector(select(root)), callback, options);
+    },
+
+    subscribeToChanges(callback: ChangeCallback, options: SubscribeToChangesOptions = {}): () => void {
+      if (!unsubscribeParent) watchParent();
+      const subscribers = options.afterCommit ? commitSubscribers : changeSubscribers;
+      subscribers.add(callback);
+      return () => {
+        subscribers.delete(callback);
+        if (changeSubscribers.size === 0 && commitSubscribers.size === 0 && unsubscribeParent) {
+          unsubscribeParent();
+          unsubscribeParentCommits?.();
+          unsubscribeParent = null;
+          unsubscribeParentCommits = null;
+        }
+      };
+    },
+
+    computed(selector) {
+      return store.computed((root) => selector(select(root)));
+    },
+
+    effect(fn) {
+      return store.effect((root) => fn(select(root)));
+    },
+
+    apply(fn: (root: S) => void): void {
+      store.apply((root) => fn(select(root)));
+    },
+
+    applyChanges(changes: Change[]): void {
+      store.applyChanges(changes.map(toParent));
+    },
+
+    applyJsonPatch(ops): void {
+      scope.applyChanges(fromJsonPatch(ops, getRoot()));
+    },
+
+    optimistic(fn) {
+      return store.optimistic((root) => fn(select(root)));
+    },
+
+    fork<F extends object>(selector?: (root: S) => F) {
+      return store.fork((root) => (selector ? selector(select(root)) : (select(root) as unknown as F)));
+    },
+
+    savepoint() {
+      return store.savepoint();
+    },
+
+    use(middleware: Middleware<S>): () => void {
+      // Scoped middleware only sees the changes inside the scope, with relative paths
+      return store.use((change, next, context) => {
+        const relative = toScope(change);
+        if (!relative) return next(change);
+        middleware(relative, (result) => next(toParent(result)), { ...context, root: select(context.root) });
+      });
+    },
+
+    scope<R extends object>(selector: (root: S) => R): Store<R> {
+      return store.scope((root) => selector(select(root)));
+    },
+
+    action(name, fn) {
+      return store.action(name, fn);
+    },
+
+    asyncAction(name, fn) {
+      return store.asyncAction(name, fn);
+    },
+
+    readonly(): ReadonlyStore<S> {
+      readonlyView ??= createReadonlyStore(scope);
+      return readonlyView;
+    },
+
+    trigger(selector) {
+      store.trigger((root) => selector(select(root)));
+    },
+  };
+  return scope;
+}
@@ -0,0 +1,60 @@
+import { findCodec, type ValueCodec } from "./codecs";
+import { type CollectionKey, isCollectionKey, keyToSegment } from "./utils";
+
+const NON_SERIALIZABLE_TYPES: [abstract new (...args: never[]) => unknown, string][] = [
+  [WeakMap, "WeakMap"],
+  [WeakSet, "WeakSet"],
+  [Date, "Date"],
+  [RegExp, "RegExp"],
+  [Promise, "Promise"],
+];
+
+function nonSerializable(name: string, path: string): Error {
+  return new Error(
+    `Non-serializable value of type "${name}" at path "${path}". ` +
+      `Store only supports plain objects, arrays, Maps, Sets, primitives and values handled by a codec.`,
+  );
+}
+
+export function assertSerializable(value: unknown, path: string, codecs: readonly ValueCodec[]): void {
+  if (value === null || value === undefined) return;
+  if (findCodec(value, codecs)) return;
+
+  if (typeof value === "function") throw nonSerializable("Function", path);
+  if (typeof value === "bigint") throw nonSerializable("BigInt", path);
+  if (typeof value === "symbol") throw nonSerializable("Symbol", path);
+
+  if (typeof value !== "object") return;
+
+  for (const [Type, name] of NON_SERIALIZABLE_TYPES) {
+    if (value instanceof Type) throw nonSerializable(name, path);
+  }
+
+  if (value instanceof Map) {
+    for (const [key, item] of value) {
+      assertCollectionKey(key, "Map key", path);
+      assertSerializable(item, `${path}.${keyToSegment(key)}`, codecs);
+    }
+  } else if (value instanceof Set) {
+    for (const member of value) {
+      assertCollectionKey(member, "Set member", path);
+    }
+  } else if (Array.isArray(value)) {
+    for (let i = 0; i < value.length; i++) {
+      assertSerializable(value[i], path ? `${path}.${i}` : String(i), codecs);
+    }
+  } else {
+    for (const key of Object.keys(value as object)) {
+      assertSerializable((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key, codecs);
+    }
+  }
+}
+
+export function assertCollectionKey(key: unknown, kind: string, path: string): asserts key is CollectionKey {
+  if (!isCollectionKey(key)) {
+    throw new Error(
+      `Unsupported ${kind} of type "${typeof key}" at path "${path}". ` +
+        `Map keys and Set members must be strings, numbers, booleans or null.`,
+    );
+  }
+}
@@ -0,0 +1,54 @@
+// Tags used to encode values JSON has no representation for. Plain objects that look like a tag are wrapped in
+// `$object` so they decode unchanged.
+const TAGS = new Set(["$map", "$set", "$object"]);
+
+function encode(value: unknown): unknown {
+  if (value === null || typeof value !== "object") return value;
+  if (Array.isArray(value)) return value.map(encode);
+  if (value instanceof Map) return { $map: [...value].map(([key, item]) => [key, encode(item)]) };
+  if (value instanceof Set) return { $set: [...value] };
+
+  const encoded: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    encoded[key] = encode(item);
+  }
+  const keys = Object.keys(encoded);
+  return keys.length === 1 && TAGS.has(keys[0]!) ? { $object: encoded } : encoded;
+}
+
+function decode(value: unknown): unknown {
+  if (value === null || typeof value !== "object") return value;
+  if (Array.isArray(value)) return value.map(decode);
+
+  const record = value as Record<string, unknown>;
+  const keys = Object.keys(record);
+  if (keys.length === 1) {
+    if (keys[0] === "$map") {
+      return new Map((record.$map as [unknown, unknown][]).map(([key, item]) => [key, decode(item)]));
+    }
+    if (keys[0] === "$set") return new Set(record.$set as unknown[]);
+    if (keys[0] === "$object") return decodeEntries(record.$object as Record<string, unknown>);
+  }
+  return decodeEntries(record);
+}
+
+function decodeEntries(record: Record<string, unknown>): Record<string, unknown> {
+  const decoded: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(record)) {
+    decoded[key] = decode(item);
+  }
+  return decoded;
+}
+
+/**
+ * Serializes store state (or changes) to a JSON string. Unlike `JSON.stringify`, `Map` and `Set` are preserved:
+ * they are written as `{ "$map": [[key, value], ...] }` and `{ "$set": [...] }`.
+ */
+export function serialize(value: unknown): string {
+  return JSON.stringify(encode(value));
+}
+
+/** Parses a string produced by `serialize`, restoring `Map` and `Set` instances. */
+export function deserialize<T = unknown>(text: string): T {
+  return decode(JSON.parse(text)) as T;
+}
@@ -0,0 +1,222 @@
+import { encodeValue } from "./codecs";
+import type { Change, Store } from "./index";
+import { createId, encodePath } from "./utils";
+
+/**
+ * Anything messages can be posted to and received from: a `MessagePort`, `BroadcastChannel`, `Worker`, or a Node
+ * `worker_threads` port or worker. Listeners are attached with `addEventListener` when available, `on` otherwise.
+ */
+export interface SyncEndpoint {
+  postMessage(message: unknown): void;
+  // `any` so DOM and Node event listener signatures both fit; only `event.data` is read
+  addEventListener?(type: "message", listener: (event: any) => void): void;
+  removeEventListener?(type: "message", listener: (event: any) => void): void;
+  on?(event: "message", listener: (data: unknown) => void): void;
+  off?(event: "message", listener: (data: unknown) => void): void;
+  start?(): void;
+}
+
+export interface SyncOptions {
+  /**
+   * The leader owns the state: it sends snapshots, numbers every change batch and is the only one broadcasting them.
+   * Followers send their local batches to the leader and apply what it broadcasts.
+   */
+  role: "leader" | "follower";
+  /** Name that keeps messages of several synced stores sharing one endpoint apart. Defaults to `"pulsar-store"`. */
+  channel?: string;
+}
+
+export interface StoreSync {
+  /** Resolves once a follower has applied the leader's snapshot. Already resolved for the leader. */
+  readonly ready: Promise<void>;
+  /** Asks the leader for a fresh snapshot. Does nothing on the leader. */
+  resync(): void;
+  /** Stops syncing and detaches from the endpoint. */
+  dispose(): void;
+}
+
+type SyncMessage =
+  | { channel: string; type: "hello"; from: string }
+  | { channel: string; type: "snapshot"; to?: string; seq: number; state: Record<string, unknown> }
+  | { channel: string; type: "submit"; from: string; id: number; changes: Change[] }
+  | { channel: string; type: "changes"; seq: number; origin: string; id: number; changes: Change[] };
+
+/** Turns a snapshot into changes that replace every top-level key of the current state. */
+export function snapshotToChanges(state: Record<string, unknown>, currentKeys: string[]): Change[] {
+  const changes: Change[] = [];
+  for (const key of currentKeys) {
+    if (!(key in state)) changes.push({ type: "property", path: encodePath([key]), value: undefined });
+  }
+  for (const [key, value] of Object.entries(state)) {
+    changes.push({ type: "property", path: encodePath([key]), value });
+  }
+  return changes;
+}
+
+/**
+ * Keeps `store` in sync with stores in other contexts (tabs, workers, iframes) over a `postMessage`-style endpoint.
+ *
+ * On connect, followers ask for a snapshot and the leader sends one. Every change batch is then routed through the
+ * leader, which applies it and broadcasts it with a sequence number. Followers apply batches in sequence order and
+ * request a new snapshot when they detect a gap. A follower does not re-apply its own batches when the leader echoes
+ * them back, and batches that arrived through sync are never sent out again by the context that received them.
+ */
+export function syncStore<T extends object>(store: Store<T>, endpoint: SyncEndpoint, options: SyncOptions): StoreSync {
+  if (!endpoint.addEventListener && !endpoint.on) {
+    throw new Error("Sync endpoint must support addEventListener() or on() for message events.");
+  }
+  const { role, channel = "pulsar-store" } = options;
+  const isLeader = role === "leader";
+  const selfId = createId();
+
+  let seq = 0;
+  let disposed = false;
+  // Set while applying batches received through sync, so they are not sent out again
+  let isApplying = false;
+  // Origin attached to the batch the leader is currently applying on a follower's behalf
+  let applyingFor: { origin: string; id: number } | null = null;
+
+  // Follower state
+  let awaitingSnapshot = !isLeader;
+  let nextBatchId = 0;
+  // Local batches sent to the leader whose echo has not arrived yet
+  const pending = new Set<number>();
+  // Whether a foreign batch was applied on top of pending local batches, so the local order may differ from the leader's
+  let diverged = false;
+  let resolveReady!: () => void;
+  const ready = new Promise<void>((resolve) => {
+    resolveReady = resolve;
+  });
+
+  function post(message: SyncMessage): void {
+    if (!disposed) endpoint.postMessage(message);
+  }
+
+  function apply(changes: Change[]): void {
+    isApplying = true;
+    try {
+      store.applyChanges(changes);
+    } finally {
+      isApplying = false;
+    }
+  }
+
+  function sendSnapshot(to?: string): void {
+    const state = encodeValue(store.snapshot(), store.codecs) as Record<string, unknown>;
+    post({ channel, type: "snapshot", to, seq, state });
+  }
+
+  function requestSnapshot(): void {
+    awaitingSnapshot = true;
+    post({ channel, type: "hello", from: selfId });
+  }
+
+  // --- leader ---
+
+  function onLeaderMessage(message: SyncMessage): void {
+    if (message.type === "hello") {
+      sendSnapshot(message.from);
+    } else if (message.type === "submit") {
+      applyingFor = { origin: message.from, id: message.id };
+      try {
+        store.applyChanges(message.changes);
+      } catch {
+        // The batch does not apply to the leader's state; bring the follower back in line
+        sendSnapshot(message.from);
+      } finally {
+        applyingFor = null;
+      }
+    }
+  }
+
+  // --- follower ---
+
+  function onFollowerMessage(message: SyncMessage): void {
+    if (message.type === "snapshot") {
+      // Snapshots addressed to this follower always apply; broadcast ones only if they are news
+      if (message.to === undefined ? !awaitingSnapshot && message.seq <= seq : message.to !== selfId) return;
+      apply(snapshotToChanges(message.state, Object.keys(store.root)));
+      seq = message.seq;
+      awaitingSnapshot = false;
+      // Batches sent before the snapshot was taken are either in it or will be broadcast after it
+      pending.clear();
+      diverged = false;
+      resolveReady();
+    } else if (message.type === "changes") {
+      if (awaitingSnapshot || message.seq <= seq) return;
+      if (message.seq !== seq + 1) {
+        requestSnapshot();
+        return;
+      }
+      seq = message.seq;
+
+      if (message.origin === selfId && pending.delete(message.id)) {
+        // Already applied locally
+        if (pending.size === 0 && diverged) requestSnapshot();
+        return;
+      }
+      if (pending.size > 0) diverged = true;
+      apply(message.changes);
+    }
+  }
+
+  function onMessage(data: unknown): void {
+    const message = data as SyncMessage | null;
+    if (disposed || message === null || typeof message !== "object" || message.channel !== channel) return;
+    if (isLeader) {
+      onLeaderMessage(message);
+    } else {
+      onFollowerMessage(message);
+    }
+  }
+
+  // Only committed batches are broadcast or submitted: one a change subscriber rejects never happened
+  const unsubscribe = store.subscribeToChanges(
+    (changes) => {
+      if (isLeader) {
+        seq++;
+        const origin = applyingFor ?? { origin: selfId, id: 0 };
+        post({ channel, type: "changes", seq, ...origin, changes });
+      } else if (!isApplying) {
+        const id = nextBatchId++;
+        pending.add(id);
+        post({ channel, type: "submit", from: selfId, id, changes });
+      }
+    },
+    { afterCommit: true },
+  );
+
+  const listener = (event: { data: unknown }) => onMessage(event.data);
+  if (endpoint.addEventListener) {
+    endpoint.addEventListener("message", listener);
+    endpoint.start?.();
+  } else {
+    endpoint.on!("message", onMessage);
+  }
+
+  if (isLeader) {
+    sendSnapshot();
+    resolveReady();
+  } else {
+    requestSnapshot();
+  }
+
+  return {
+    ready,
+
+    resync(): void {
+      if (!isLeader && !disposed) requestSnapshot();
+    },
+
+    dispose(): void {
+      if (disposed) return;
+      disposed = true;
+      unsubscribe();
+      if (endpoint.removeEventListener) {
+        endpoint.removeEventListener("message", listener);
+      } else {
+        endpoint.off?.("message", onMessage);
+      }
+    },
+  };
+}
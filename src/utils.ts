@@ -0,0 +1,398 @@
+import { findCodec, type ValueCodec } from "./codecs";
+import type { Change } from "./index";
+
+export type PathSegment = string | symbol;
+export type Path = PathSegment[];
+
+/**
+ * Joins path segments with `.`, escaping `.` and `\` inside segments with a backslash, so ordinary paths stay
+ * readable (`["user", "name"]` -> `"user.name"`) and keys with dots remain unambiguous
+ * (`["sites", "example.com"]` -> `"sites.example\\.com"`).
+ */
+export function encodePath(segments: readonly string[]): string {
+  return segments.map((segment) => segment.replace(/[\\.]/g, "\\$&")).join(".");
+}
+
+/** Splits a path produced by `encodePath` back into its segments. */
+export function decodePath(path: string): string[] {
+  const segments: string[] = [];
+  let current = "";
+  for (let i = 0; i < path.length; i++) {
+    const char = path[i]!;
+    if (char === "\\" && i + 1 < path.length) {
+      current += path[++i];
+    } else if (char === ".") {
+      segments.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  segments.push(current);
+  return segments;
+}
+
+/** Joins an encoded path onto an encoded `prefix` path. An empty `prefix` stands for the root. */
+export function joinPath(prefix: string, path: string): string {
+  return prefix === "" ? path : `${prefix}.${path}`;
+}
+
+/** Splits a path into the path of its parent and its last segment. */
+export function splitPath(path: string): [parent: string, key: string] {
+  const segments = decodePath(path);
+  const key = segments.pop()!;
+  return [encodePath(segments), key];
+}
+
+export function pathToString(path: Path): string {
+  return encodePath(path.map((p) => String(p)));
+}
+
+/** Whether `value` is an object other than an array, a `Map`, a `Set` or a `Date`. */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    !(value instanceof Map) &&
+    !(value instanceof Set) &&
+    !(value instanceof Date)
+  );
+}
+
+/** Primitive types allowed as `Map` keys and `Set` members. */
+export type CollectionKey = string | number | boolean | null;
+
+export function isCollectionKey(value: unknown): value is CollectionKey {
+  return value === null || typeof value === "string" || typeof value === "number" || typeof value === "boolean";
+}
+
+/**
+ * Encodes a `Map` key or `Set` member as a path segment. String keys are used as is so paths stay readable
+ * (`users.alice`); other keys are prefixed with `@` and written as JSON (`scores.@1`), and string keys that start
+ * with `@` get a second one.
+ */
+export function keyToSegment(key: CollectionKey): string {
+  if (typeof key === "string") return key.startsWith("@") ? "@" + key : key;
+  return "@" + JSON.stringify(key);
+}
+
+/** Decodes a path segment produced by `keyToSegment`. */
+export function segmentToKey(segment: string): CollectionKey {
+  if (!segment.startsWith("@")) return segment;
+  if (segment.startsWith("@@")) return segment.slice(1);
+  return JSON.parse(segment.slice(1)) as CollectionKey;
+}
+
+/** Returns the path a change affects, which for `Map` and `Set` changes includes the key they touch. */
+export function getChangedPath(change: Change): string {
+  if (change.type === "map" || change.type === "set") {
+    if (change.method === "clear") return change.path;
+    return `${change.path}.${encodePath([keyToSegment(change.args[0] as CollectionKey)])}`;
+  }
+  return change.path;
+}
+
+export function isPathAffected(accessedPath: string, changedPath: string): boolean {
+  if (accessedPath === changedPath) return true;
+  if (accessedPath.startsWith(changedPath + ".")) return true;
+  if (changedPath.startsWith(accessedPath + ".")) return true;
+  return false;
+}
+
+/**
+ * Trailing path segment that marks a value read as a whole (enumerated, or a method called on it) rather than
+ * traversed. Such a value is a leaf even if some of its children were read as well.
+ */
+export const WHOLE_VALUE = "";
+
+/** Returns the paths that no other path in the set extends, i.e. the values that were actually read. */
+export function getLeafPaths(paths: Set<string>): Set<string> {
+  const prefixes = new Set<string>();
+  const wholes = new Set<string>();
+  const reads: string[] = [];
+  for (const path of paths) {
+    const segments = decodePath(path);
+    if (segments.length > 1 && segments[segments.length - 1] === WHOLE_VALUE) {
+      wholes.add(encodePath(segments.slice(0, -1)));
+      continue;
+    }
+    reads.push(path);
+    for (let i = 1; i < segments.length; i++) {
+      prefixes.add(encodePath(segments.slice(0, i)));
+    }
+  }
+  const leafPaths = new Set(wholes);
+  for (const path of reads) {
+    if (!prefixes.has(path)) {
+      leafPaths.add(path);
+    }
+  }
+  return leafPaths;
+}
+
+// --- path utilities for plain (unproxied) state ---
+
+// Path segments address `Map` entries by their encoded key and object properties by name
+
+function getChild(container: object, segment: string): unknown {
+  if (container instanceof Map) return container.get(segmentToKey(segment));
+  return (container as Record<string, unknown>)[segment];
+}
+
+function hasChild(container: object, segment: string): boolean {
+  if (container instanceof Map) return container.has(segmentToKey(segment));
+  return segment in container;
+}
+
+function setChild(container: object, segment: string, value: unknown): void {
+  if (container instanceof Map) {
+    container.set(segmentToKey(segment), value);
+  } else {
+    (container as Record<string, unknown>)[segment] = value;
+  }
+}
+
+function deleteChild(container: object, segment: string): void {
+  if (container instanceof Map) {
+    container.delete(segmentToKey(segment));
+  } else {
+    delete (container as Record<string, unknown>)[segment];
+  }
+}
+
+export function getValueAtPath(root: object, path: string): unknown {
+  const segments = decodePath(path);
+  let current: unknown = root;
+  for (const segment of segments) {
+    if (current === null || current === undefined) return undefined;
+    current = getChild(current as object, segment);
+  }
+  return current;
+}
+
+export function setValueAtPath(root: object, path: string, value: unknown): void {
+  const segments = decodePath(path);
+  if (segments.length === 0) return;
+  let current = root;
+  for (let i = 0; i < segments.length - 1; i++) {
+    const segment = segments[i]!;
+    let next = getChild(current, segment);
+    if (next === null || next === undefined) {
+      next = {};
+      setChild(current, segment, next);
+    }
+    current = next as object;
+  }
+  const key = segments[segments.length - 1]!;
+  if (value === undefined && !Array.isArray(current)) {
+    // `delete` is emitted as an `undefined` value; replay it as a deletion so the key does not linger
+    deleteChild(current, key);
+  } else {
+    setChild(current, key, value);
+  }
+}
+
+/**
+ * Returns the path and value of what `setValueAtPath(root, path, value)` would store: the objects it creates from
+ * the first missing one on the path, with `value` inside, or `value` at `path` when all of them exist.
+ */
+export function getStoredValue(root: object, path: string, value: unknown): [string, unknown] {
+  const segments = decodePath(path);
+  let current: unknown = root;
+  for (let i = 0; i < segments.length - 1; i++) {
+    current = getChild(current as object, segments[i]!);
+    if (current === null || current === undefined) {
+      let created: Record<string, unknown> = value === undefined ? {} : { [segments[segments.length - 1]!]: value };
+      for (let j = segments.length - 2; j > i; j--) {
+        created = { [segments[j]!]: created };
+      }
+      return [encodePath(segments.slice(0, i + 1)), created];
+    }
+  }
+  return [path, value];
+}
+
+/** Returns a function that restores the contents of a `Map` or `Set`, including their insertion order. */
+export function createCollectionRollback(collection: Map<unknown, unknown> | Set<unknown>): () => void {
+  if (collection instanceof Map) {
+    const entries = [...collection];
+    return () => {
+      collection.clear();
+      for (const [key, value] of entries) {
+        collection.set(key, value);
+      }
+    };
+  }
+  const members = [...collection];
+  return () => {
+    collection.clear();
+    for (const member of members) {
+      collection.add(member);
+    }
+  };
+}
+
+/** Captures what `applyChangeTo(root, change)` is about to overwrite and returns a function that restores it. */
+export function createRollback(root: object, change: Change): () => void {
+  if (change.type === "map" || change.type === "set") {
+    const collection = getValueAtPath(root, change.path);
+    if (!(collection instanceof Map || collection instanceof Set)) return () => {};
+    return createCollectionRollback(collection);
+  }
+  if (change.type === "array") {
+    const arr = getValueAtPath(root, change.path);
+    if (!Array.isArray(arr)) return () => {};
+    const snapshot = [...arr];
+    return () => {
+      arr.length = 0;
+      arr.push(...snapshot);
+    };
+  }
+
+  // Restore the first missing intermediate object, or the leaf itself if the whole chain exists
+  const segments = decodePath(change.path);
+  let container = root;
+  let index = 0;
+  for (; index < segments.length - 1; index++) {
+    const next = getChild(container, segments[index]!);
+    if (next === null || next === undefined) break;
+    container = next as object;
+  }
+  const key = segments[index]!;
+  if (
+    Array.isArray(container) &&
+    index === segments.length - 1 &&
+    (key === "length" || Number(key) >= container.length)
+  ) {
+    // Writes that change the length are undone by restoring the elements, not just the written slot
+    const snapshot = [...container];
+    return () => {
+      container.length = 0;
+      container.push(...snapshot);
+    };
+  }
+  if (container instanceof Map && hasChild(container, key)) {
+    // Re-setting a Map key keeps its position, but re-adding a deleted one would not
+    return createCollectionRollback(container);
+  }
+  const hadKey = hasChild(container, key);
+  const oldValue = getChild(container, key);
+  return () => {
+    if (hadKey) {
+      setChild(container, key, oldValue);
+    } else {
+      deleteChild(container, key);
+    }
+  };
+}
+
+/** Applies a single change to plain state without any tracking. Returns the array method's result, if any. */
+export function applyChangeTo(root: object, change: Change): unknown {
+  if (change.type === "property") {
+    setValueAtPath(root, change.path, change.value);
+  } else if (change.type === "array") {
+    const arr = getValueAtPath(root, change.path);
+    if (Array.isArray(arr) && change.method in arr && typeof arr[change.method as keyof typeof arr] === "function") {
+      return (arr[change.method as keyof typeof arr] as Function).apply(arr, change.args);
+    }
+  } else {
+    const collection = getValueAtPath(root, change.path);
+    const Type = change.type === "map" ? Map : Set;
+    if (collection instanceof Type && ["set", "add", "delete", "clear"].includes(change.method)) {
+      return (collection[change.method as keyof typeof collection] as Function).apply(collection, change.args);
+    }
+  }
+  return undefined;
+}
+
+/** Resolves a relative array index the way `Array.prototype.splice` does. */
+export function normalizeIndex(index: unknown, length: number): number {
+  const n = Math.trunc(Number(index)) || 0;
+  if (n < 0) return Math.max(length + n, 0);
+  return Math.min(n, length);
+}
+
+/**
+ * Deep-copies serializable state. Behaves like a JSON round trip (object keys holding `undefined` are dropped and
+ * array holes become `null`), except that `Map` and `Set` are copied as such and values handled by one of `codecs`
+ * are copied by the codec.
+ */
+export function cloneValue<V>(value: V, codecs: readonly ValueCodec[] = []): V {
+  return cloneDeep(value, false, codecs) as V;
+}
+
+function cloneDeep(value: unknown, inArray: boolean, codecs: readonly ValueCodec[]): unknown {
+  if (value === undefined) return inArray ? null : undefined;
+  const codec = findCodec(value, codecs);
+  if (codec) return codec.clone ? codec.clone(value) : codec.decode(codec.encode(value));
+  if (value === null || typeof value !== "object") return value;
+  if (Array.isArray(value)) return value.map((item) => cloneDeep(item, true, codecs));
+  if (value instanceof Map) return new Map([...value].map(([key, item]) => [key, cloneDeep(item, false, codecs)]));
+  if (value instanceof Set) return new Set(value);
+
+  const copy: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (item !== undefined) copy[key] = cloneDeep(item, false, codecs);
+  }
+  return copy;
+}
+
+function collectionsEqual(a: object, b: object, compare: (x: unknown, y: unknown) => boolean): boolean | undefined {
+  if (a instanceof Set || b instanceof Set) {
+    if (!(a instanceof Set && b instanceof Set) || a.size !== b.size) return false;
+    for (const member of a) {
+      if (!b.has(member)) return false;
+    }
+    return true;
+  }
+  if (a instanceof Map || b instanceof Map) {
+    if (!(a instanceof Map && b instanceof Map) || a.size !== b.size) return false;
+    for (const [key, value] of a) {
+      if (!b.has(key) || !compare(value, b.get(key))) return false;
+    }
+    return true;
+  }
+  return undefined;
+}
+
+/** Compares arrays element-wise, plain objects key-wise and `Map`/`Set` entry-wise with `Object.is`. */
+export function shallowEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  const collections = collectionsEqual(a, b, Object.is);
+  if (collections !== undefined) return collections;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) return false;
+  for (const key of keysA) {
+    if (!Object.prototype.hasOwnProperty.call(b, key)) return false;
+    if (!Object.is((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])) return false;
+  }
+  return true;
+}
+
+/** Structural equality for serializable values. */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  const collections = collectionsEqual(a, b, deepEqual);
+  if (collections !== undefined) return collections;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) return false;
+  for (const key of keysA) {
+    if (!Object.prototype.hasOwnProperty.call(b, key)) return false;
+    if (!deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])) return false;
+  }
+  return true;
+}
+
+/** Returns a random id for telling peers apart, such as sync participants or replication clients. */
+export function createId(): string {
+  return Math.random().toString(36).slice(2) + Date.now().toString(36);
+}
@@ -37,4 +37,70 @@ describe("apply (transactions)", () => {
     expect(callback).toHaveBeenCalledTimes(1);
     expect(callback).toHaveBeenCalledWith(60);
   });
+
+  it("should roll back every mutation when the function throws", () => {
+    type Store = { a: number; b?: number; items: string[]; nested: { x: number } };
+    const store = createStore<Store>({ a: 1, items: ["x"], nested: { x: 1 } });
+    const callback = vi.fn();
+    const changesCallback = vi.fn();
+
+    store.subscribe((root) => [root.a, root.b, root.items.length, root.nested.x].join(), callback);
+    store.subscribeToChanges(changesCallback);
+    callback.mockClear();
+
+    expect(() =>
+      store.apply((root) => {
+        root.a = 2;
+        root.b = 3;
+        root.items.push("y");
+        root.nested = { x: 5 };
+        root.nested.x = 6;
+        throw new Error("abort");
+      }),
+    ).toThrow("abort");
+
+    expect(store.snapshot()).toEqual({ a: 1, items: ["x"], nested: { x: 1 } });
+    expect("b" in store.root).toBe(false);
+    expect(callback).not.toHaveBeenCalled();
+    expect(changesCallback).not.toHaveBeenCalled();
+  });
+
+  it("should roll back the transaction when a change subscriber rejects it", () => {
+    type Store = { a: number; items: number[] };
+    const store = createStore<Store>({ a: 1, items: [1, 2] });
+
+    store.subscribeToChanges(() => {
+      throw new Error("rejected");
+    });
+
+    expect(() =>
+      store.apply((root) => {
+        root.a = 2;
+        root.items.splice(0, 1);
+      }),
+    ).toThrow("rejected");
+
+    expect(store.snapshot()).toEqual({ a: 1, items: [1, 2] });
+  });
+
+  it("should allow new transactions after a failed one", () => {
+    type Store = { a: number };
+    const store = createStore<Store>({ a: 1 });
+    const changesCallback = vi.fn();
+    store.subscribeToChanges(changesCallback);
+
+    expect(() =>
+      store.apply((root) => {
+        root.a = 2;
+        throw new Error("abort");
+      }),
+    ).toThrow();
+
+    store.apply((root) => {
+      root.a = 3;
+    });
+
+    expect(changesCallback).toHaveBeenCalledTimes(1);
+    expect(changesCallback.mock.calls[0]![0]).toEqual([{ type: "property", path: "a", value: 3 }]);
+  });
 });
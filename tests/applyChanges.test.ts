@@ -59,4 +59,19 @@ describe("applyChanges", () => {
 
     expect(store.root.user.profile.name).toBe("Bob");
   });
+
+  it("should leave the store untouched when a change in the batch is invalid", () => {
+    type Store = { a: number; user?: { name: string } };
+    const store = createStore<Store>({ a: 1 });
+
+    expect(() =>
+      store.applyChanges([
+        { type: "property", path: "a", value: 2 },
+        { type: "property", path: "user.name", value: "Bob" },
+        { type: "property", path: "b", value: new Date() },
+      ]),
+    ).toThrow(/Non-serializable/);
+
+    expect(store.snapshot()).toEqual({ a: 1 });
+  });
 });
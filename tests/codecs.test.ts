@@ -0,0 +1,142 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  bigintCodec,
+  createHistory,
+  createStore,
+  dateCodec,
+  decodeValue,
+  encodeValue,
+  type Change,
+  type ValueCodec,
+} from "../src/index";
+
+class Money {
+  constructor(
+    readonly amount: number,
+    readonly currency: string,
+  ) {}
+}
+
+const moneyCodec: ValueCodec<Money, [number, string]> = {
+  name: "Money",
+  test: (value): value is Money => value instanceof Money,
+  encode: (value) => [value.amount, value.currency],
+  decode: ([amount, currency]) => new Money(amount, currency),
+};
+
+describe("codecs", () => {
+  type State = { createdAt: Date; total: bigint; price?: Money; events: Date[] };
+  const codecs = [dateCodec, bigintCodec, moneyCodec];
+
+  function createState(): State {
+    return { createdAt: new Date("2024-01-01T00:00:00.000Z"), total: 10n, events: [] };
+  }
+
+  it("should reject values without a codec", () => {
+    expect(() => createStore<State>(createState())).toThrow(/Non-serializable value of type "Date"/);
+    expect(() => createStore<any>({ total: 1n })).toThrow(/Non-serializable value of type "BigInt"/);
+  });
+
+  it("should reject invalid dates", () => {
+    const store = createStore<State>(createState(), { codecs });
+    expect(() => {
+      store.root.createdAt = new Date("nope");
+    }).toThrow(/Non-serializable value of type "Date" at path "createdAt"/);
+  });
+
+  it("should reject duplicate codec names", () => {
+    expect(() => createStore({}, { codecs: [dateCodec, dateCodec] })).toThrow('Duplicate codec name "Date".');
+  });
+
+  it("should expose codec values to selectors as is", () => {
+    const store = createStore<State>(createState(), { codecs });
+    const callback = vi.fn();
+    store.subscribe((root) => root.createdAt.getUTCFullYear(), callback);
+    callback.mockClear();
+
+    store.root.createdAt = new Date("2025-06-01T00:00:00.000Z");
+
+    expect(callback).toHaveBeenCalledWith(2025);
+    expect(store.root.createdAt).toBeInstanceOf(Date);
+  });
+
+  it("should copy codec values in snapshots", () => {
+    const store = createStore<State>({ ...createState(), price: new Money(5, "EUR") }, { codecs });
+
+    const snapshot = store.snapshot();
+
+    expect(snapshot.createdAt).toBeInstanceOf(Date);
+    expect(snapshot.createdAt).not.toBe(store.root.createdAt);
+    expect(snapshot.createdAt.getTime()).toBe(store.root.createdAt.getTime());
+    expect(snapshot.total).toBe(10n);
+    expect(snapshot.price).toEqual(new Money(5, "EUR"));
+    expect(snapshot.price).not.toBe(store.root.price);
+  });
+
+  it("should encode codec values in emitted changes", () => {
+    const store = createStore<State>(createState(), { codecs, invertible: true });
+    const changes: Change[] = [];
+    store.subscribeToChanges((batch) => changes.push(...batch));
+
+    store.apply((root) => {
+      root.total = 11n;
+      root.price = new Money(3, "USD");
+      root.events.push(new Date("2024-02-01T00:00:00.000Z"));
+    });
+
+    expect(changes).toEqual([
+      {
+        type: "property",
+        path: "total",
+        value: { $codec: "BigInt", value: "11" },
+        oldValue: { $codec: "BigInt", value: "10" },
+      },
+      { type: "property", path: "price", value: { $codec: "Money", value: [3, "USD"] } },
+      { type: "array", path: "events", method: "push", args: [{ $codec: "Date", value: "2024-02-01T00:00:00.000Z" }] },
+    ]);
+    expect(JSON.parse(JSON.stringify(changes))).toEqual(changes);
+  });
+
+  it("should decode codec values when replaying changes", () => {
+    const source = createStore<State>(createState(), { codecs });
+    const target = createStore<State>(createState(), { codecs });
+    source.subscribeToChanges((changes) => target.applyChanges(JSON.parse(JSON.stringify(changes))));
+
+    source.apply((root) => {
+      root.createdAt = new Date("2030-01-01T00:00:00.000Z");
+      root.total = 2n ** 64n;
+      root.price = new Money(1, "GBP");
+    });
+
+    expect(target.snapshot()).toEqual(source.snapshot());
+    expect(target.root.total).toBe(2n ** 64n);
+    expect(target.root.price).toBeInstanceOf(Money);
+  });
+
+  it("should reject encoded values of unknown codecs", () => {
+    const store = createStore<State>(createState(), { codecs: [dateCodec, bigintCodec] });
+    expect(() =>
+      store.applyChanges([{ type: "property", path: "price", value: { $codec: "Money", value: [1, "EUR"] } }]),
+    ).toThrow('Cannot decode value: no codec named "Money" is registered.');
+  });
+
+  it("should round-trip plain objects that look like encoded values", () => {
+    const value = { a: { $codec: "Date", value: "x" }, b: { $object: 1 }, c: new Date(0) };
+
+    const encoded = encodeValue(value, [dateCodec]);
+
+    expect(decodeValue(JSON.parse(JSON.stringify(encoded)), [dateCodec])).toEqual(value);
+  });
+
+  it("should undo and redo changes to codec values", () => {
+    const store = createStore<State>(createState(), { codecs });
+    const history = createHistory(store);
+
+    store.root.createdAt = new Date("2030-01-01T00:00:00.000Z");
+    history.undo();
+    expect(store.root.createdAt.toISOString()).toBe("2024-01-01T00:00:00.000Z");
+
+    history.redo();
+    expect(store.root.createdAt.toISOString()).toBe("2030-01-01T00:00:00.000Z");
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi } from "vitest";
+import { createStore, deserialize, invertChanges, serialize, type Change } from "../src/index";
+
+describe("Map and Set", () => {
+  type User = { name: string };
+  type State = { users: Map<string, User>; scores: Map<number, number>; tags: Set<string> };
+
+  function createState(): State {
+    return {
+      users: new Map([["alice", { name: "Alice" }]]),
+      scores: new Map([[1, 10]]),
+      tags: new Set(["a"]),
+    };
+  }
+
+  it("should emit changes for Map and Set mutations", () => {
+    const store = createStore<State>(createState());
+    const changes: Change[] = [];
+    store.subscribeToChanges((batch) => changes.push(...batch));
+
+    store.root.users.set("bob", { name: "Bob" });
+    store.root.users.delete("alice");
+    store.root.tags.add("b");
+    store.root.tags.clear();
+
+    expect(changes).toEqual([
+      { type: "map", path: "users", method: "set", args: ["bob", { name: "Bob" }] },
+      { type: "map", path: "users", method: "delete", args: ["alice"] },
+      { type: "set", path: "tags", method: "add", args: ["b"] },
+      { type: "set", path: "tags", method: "clear", args: [] },
+    ]);
+  });
+
+  it("should not emit changes for mutations that change nothing", () => {
+    const store = createStore<State>(createState());
+    const callback = vi.fn();
+    store.subscribeToChanges(callback);
+
+    expect(store.root.users.delete("nobody")).toBe(false);
+    expect(store.root.tags.add("a")).toBe(store.root.tags);
+    store.root.tags.delete("a");
+    store.root.tags.clear();
+
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it("should track Map lookups per key", () => {
+    const store = createStore<State>(createState());
+    const alice = vi.fn();
+    const bob = vi.fn();
+    store.subscribe((root) => root.users.get("alice")?.name, alice);
+    store.subscribe((root) => root.users.has("bob"), bob);
+    alice.mockClear();
+    bob.mockClear();
+
+    store.root.users.set("bob", { name: "Bob" });
+    expect(alice).not.toHaveBeenCalled();
+    expect(bob).toHaveBeenCalledWith(true);
+
+    store.root.users.get("alice")!.name = "Alicia";
+    expect(alice).toHaveBeenCalledWith("Alicia");
+  });
+
+  it("should distinguish numeric keys from string keys", () => {
+    const store = createStore<State>(createState());
+    const callback = vi.fn();
+    store.subscribe((root) => root.scores.get(1), callback);
+    callback.mockClear();
+
+    store.root.scores.set(2, 20);
+    expect(callback).not.toHaveBeenCalled();
+
+    store.root.scores.set(1, 11);
+    expect(callback).toHaveBeenCalledWith(11);
+  });
+
+  it("should notify size and iteration readers on any entry change", () => {
+    const store = createStore<State>(createState());
+    const size = vi.fn();
+    const names = vi.fn();
+    store.subscribe((root) => root.tags.size, size);
+    store.subscribe((root) => [...root.users.values()].map((user) => user.name).join(","), names);
+    size.mockClear();
+    names.mockClear();
+
+    store.root.tags.add("b");
+    store.root.users.get("alice")!.name = "Alicia";
+
+    expect(size).toHaveBeenCalledWith(2);
+    expect(names).toHaveBeenCalledWith("Alicia");
+  });
+
+  it("should make values read from a Map writable", () => {
+    const store = createStore<State>(createState());
+    const changes: Change[] = [];
+    store.subscribeToChanges((batch) => changes.push(...batch));
+
+    for (const [, user] of store.root.users) {
+      user.name = user.name.toUpperCase();
+    }
+
+    expect(changes).toEqual([{ type: "property", path: "users.alice.name", value: "ALICE" }]);
+    expect(store.root.users.get("alice")!.name).toBe("ALICE");
+  });
+
+  it("should replay Map and Set changes with applyChanges", () => {
+    const source = createStore<State>(createState());
+    const target = createStore<State>(createState());
+    source.subscribeToChanges((changes) => target.applyChanges(changes));
+
+    source.apply((root) => {
+      root.users.set("bob", { name: "Bob" });
+      root.users.get("alice")!.name = "Alicia";
+      root.scores.delete(1);
+      root.tags.add("b");
+    });
+
+    expect(target.snapshot()).toEqual(source.snapshot());
+  });
+
+  it("should roll back Map and Set mutations when a transaction throws", () => {
+    const store = createStore<State>(createState());
+    store.root.users.set("bob", { name: "Bob" });
+
+    expect(() =>
+      store.apply((root) => {
+        root.users.delete("alice");
+        root.users.set("alice", { name: "Alice 2" });
+        root.tags.clear();
+        throw new Error("fail");
+      }),
+    ).toThrow("fail");
+
+    expect([...store.root.users.keys()]).toEqual(["alice", "bob"]);
+    expect(store.root.users.get("alice")!.name).toBe("Alice");
+    expect([...store.root.tags]).toEqual(["a"]);
+  });
+
+  it("should invert Map and Set changes", () => {
+    const store = createStore<State>(createState(), { invertible: true });
+    const changes: Change[] = [];
+    store.subscribeToChanges((batch) => changes.push(...batch));
+    const before = store.snapshot();
+
+    store.apply((root) => {
+      root.users.set("alice", { name: "Alicia" });
+      root.users.set("bob", { name: "Bob" });
+      root.scores.clear();
+      root.tags.add("b");
+      root.tags.delete("a");
+    });
+    store.applyChanges(invertChanges(changes));
+
+    expect(store.snapshot()).toEqual(before);
+  });
+
+  it("should copy Map and Set in snapshots", () => {
+    const store = createStore<State>(createState());
+    const snapshot = store.snapshot();
+
+    store.root.users.get("alice")!.name = "Alicia";
+    store.root.tags.add("b");
+
+    expect(snapshot.users).toBeInstanceOf(Map);
+    expect(snapshot.users.get("alice")!.name).toBe("Alice");
+    expect([...snapshot.tags]).toEqual(["a"]);
+  });
+
+  it("should round-trip Map and Set through serialize and deserialize", () => {
+    const state = { ...createState(), plain: { $map: 1 } };
+
+    const restored = deserialize<typeof state>(serialize(state));
+
+    expect(restored).toEqual(state);
+    expect([...restored.scores.keys()]).toEqual([1]);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from "vitest";
+import { createStore } from "../src/index";
+
+describe("computed", () => {
+  type Todo = { title: string; done: boolean };
+  type Store = { todos: Todo[]; filter: string; user: { name: string } };
+
+  function setup() {
+    return createStore<Store>({
+      todos: [
+        { title: "a", done: true },
+        { title: "b", done: false },
+      ],
+      filter: "all",
+      user: { name: "Alice" },
+    });
+  }
+
+  it("should evaluate lazily and cache the result", () => {
+    const store = setup();
+    const selector = vi.fn((root: Store) => root.todos.filter((t) => t.done));
+    const done = store.computed(selector);
+
+    expect(selector).not.toHaveBeenCalled();
+
+    const first = done.value;
+    const second = done.value;
+
+    expect(selector).toHaveBeenCalledTimes(1);
+    expect(first).toBe(second);
+    expect(first).toEqual([{ title: "a", done: true }]);
+  });
+
+  it("should only recompute when a tracked path changes", () => {
+    const store = setup();
+    const selector = vi.fn((root: Store) => root.todos.length);
+    const count = store.computed(selector);
+
+    expect(count.value).toBe(2);
+    store.root.user.name = "Bob";
+    expect(count.value).toBe(2);
+    expect(selector).toHaveBeenCalledTimes(1);
+
+    store.root.todos.push({ title: "c", done: false });
+    expect(count.value).toBe(3);
+    expect(selector).toHaveBeenCalledTimes(2);
+  });
+
+  it("should notify subscribers reading the computed value", () => {
+    const store = setup();
+    const doneCount = store.computed((root) => root.todos.filter((t) => t.done).length);
+    const callback = vi.fn();
+
+    store.subscribe(() => doneCount.value * 10, callback);
+    expect(callback).toHaveBeenCalledWith(10);
+    callback.mockClear();
+
+    store.root.user.name = "Bob";
+    expect(callback).not.toHaveBeenCalled();
+
+    store.root.todos[1]!.done = true;
+    expect(callback).toHaveBeenCalledWith(20);
+  });
+
+  it("should compose computed values with transitive tracking", () => {
+    const store = setup();
+    const done = store.computed((root) => root.todos.filter((t) => t.done));
+    const titles = store.computed(() => done.value.map((t) => t.title).join(","));
+    const callback = vi.fn();
+
+    titles.subscribe(callback);
+    expect(callback).toHaveBeenCalledWith("a");
+
+    store.root.todos.push({ title: "c", done: true });
+    expect(callback).toHaveBeenLastCalledWith("a,c");
+  });
+
+  it("should share one evaluation between subscribers", () => {
+    const store = setup();
+    const selector = vi.fn((root: Store) => root.todos.length);
+    const count = store.computed(selector);
+
+    count.subscribe(() => {});
+    count.subscribe(() => {});
+    store.root.todos.pop();
+    selector.mockClear();
+    store.root.todos.pop();
+
+    expect(selector).toHaveBeenCalledTimes(1);
+  });
+
+  it("should reflect writes made earlier in the same transaction", () => {
+    const store = setup();
+    const count = store.computed((root) => root.todos.length);
+    let seen = 0;
+
+    expect(count.value).toBe(2);
+    store.apply((root) => {
+      root.todos.push({ title: "c", done: false });
+      seen = count.value;
+    });
+
+    expect(seen).toBe(3);
+  });
+
+  it("should recompute after a transaction is rolled back", () => {
+    const store = setup();
+    const name = store.computed((root) => root.user.name);
+
+    expect(() =>
+      store.apply((root) => {
+        root.user.name = "Bob";
+        expect(name.value).toBe("Bob");
+        throw new Error("abort");
+      }),
+    ).toThrow("abort");
+
+    expect(name.value).toBe("Alice");
+  });
+});
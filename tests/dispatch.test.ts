@@ -0,0 +1,184 @@
+import { describe, it, expect, vi } from "vitest";
+import { createStore } from "../src/index";
+
+describe("subscription dispatch", () => {
+  type Row = { id: number; value: number };
+  type Store = { rows: Row[]; users: Record<string, { name: string }> };
+
+  function createRows(count: number): Row[] {
+    return Array.from({ length: count }, (_, id) => ({ id, value: 0 }));
+  }
+
+  it("should only re-run selectors that read the changed path", () => {
+    const store = createStore<Store>({ rows: createRows(3), users: {} });
+    const selectors = [0, 1, 2].map((i) => vi.fn((root: Store) => root.rows[i]!.value));
+    selectors.forEach((selector) => store.subscribe(selector, () => {}));
+    selectors.forEach((selector) => selector.mockClear());
+
+    store.root.rows[1]!.value = 5;
+
+    expect(selectors[0]).not.toHaveBeenCalled();
+    expect(selectors[1]).toHaveBeenCalledTimes(1);
+    expect(selectors[2]).not.toHaveBeenCalled();
+  });
+
+  it("should skip selectors of elements before the first index an array mutation affects", () => {
+    const store = createStore<Store>({ rows: createRows(4), users: {} });
+    const selectors = [0, 1, 2, 3, 4, 5].map((i) => vi.fn((root: Store) => root.rows[i]?.value));
+    selectors.forEach((selector) => store.subscribe(selector, () => {}));
+    const length = vi.fn((root: Store) => root.rows.length);
+    store.subscribe(length, () => {});
+    const calls = () => selectors.map((selector) => selector.mock.calls.length);
+    const clear = () => [...selectors, length].forEach((selector) => selector.mockClear());
+    clear();
+
+    store.root.rows.push({ id: 4, value: 0 });
+    expect(calls()).toEqual([0, 0, 0, 0, 1, 1]);
+    expect(length).toHaveBeenCalledTimes(1);
+    clear();
+
+    store.root.rows.splice(2, 1);
+    expect(calls()).toEqual([0, 0, 1, 1, 1, 1]);
+    clear();
+
+    store.root.rows.pop();
+    expect(calls()).toEqual([0, 0, 0, 1, 1, 1]);
+    clear();
+
+    store.root.rows.splice(10, 0, { id: 9, value: 9 });
+    expect(store.root.rows[3]!.id).toBe(9);
+    expect(calls()).toEqual([0, 0, 0, 1, 1, 1]);
+    clear();
+
+    store.root.rows.unshift({ id: 8, value: 8 });
+    expect(calls()).toEqual([1, 1, 1, 1, 1, 1]);
+  });
+
+  it("should notify selectors on a replaced ancestor", () => {
+    const store = createStore<Store>({ rows: createRows(2), users: {} });
+    const callback = vi.fn();
+    store.subscribe((root) => root.rows[1]?.value, callback);
+    callback.mockClear();
+
+    store.root.rows = [{ id: 0, value: 1 }];
+
+    expect(callback).toHaveBeenCalledWith(undefined);
+  });
+
+  it("should notify element selectors when a write to length shortens an array", () => {
+    const store = createStore<Store>({ rows: createRows(3), users: {} });
+    const first = vi.fn((root: Store) => root.rows[0]?.value);
+    const callback = vi.fn();
+    store.subscribe(first, () => {});
+    store.subscribe((root) => root.rows[2]?.value, callback);
+    first.mockClear();
+    callback.mockClear();
+
+    store.root.rows.length = 1;
+
+    expect(callback).toHaveBeenCalledWith(undefined);
+    expect(first).not.toHaveBeenCalled();
+  });
+
+  it("should notify length selectors when a write past the end grows an array", () => {
+    const store = createStore<{ tags: string[] }>({ tags: ["a"] });
+    const callback = vi.fn();
+    store.subscribe((root) => root.tags.length, callback);
+    const length = store.computed((root) => root.tags.length);
+    callback.mockClear();
+    expect(length.value).toBe(1);
+
+    store.root.tags[3] = "x";
+
+    expect(callback).toHaveBeenCalledWith(4);
+    expect(length.value).toBe(4);
+
+    store.applyChanges([{ type: "property", path: "tags.5", value: "y" }]);
+    expect(callback).toHaveBeenCalledWith(6);
+    expect(length.value).toBe(6);
+  });
+
+  it("should notify selectors that call array methods when an element changes", () => {
+    const store = createStore<Store>({ rows: createRows(3), users: {} });
+    const callback = vi.fn();
+    store.subscribe((root) => root.rows.map((row) => row.value).join(","), callback);
+    callback.mockClear();
+
+    store.root.rows[2]!.value = 7;
+
+    expect(callback).toHaveBeenCalledWith("0,0,7");
+  });
+
+  it("should notify selectors that enumerate keys when a key is added or deleted", () => {
+    const store = createStore<Store>({ rows: [], users: { alice: { name: "Alice" } } });
+    const callback = vi.fn();
+    store.subscribe((root) => Object.keys(root.users).join(","), callback);
+    callback.mockClear();
+
+    store.root.users.bob = { name: "Bob" };
+    expect(callback).toHaveBeenLastCalledWith("alice,bob");
+
+    delete store.root.users.alice;
+    expect(callback).toHaveBeenLastCalledWith("bob");
+  });
+
+  it("should re-index subscriptions when the paths they read change", () => {
+    type Toggle = { useA: boolean; a: number; b: number };
+    const store = createStore<Toggle>({ useA: true, a: 1, b: 2 });
+    const callback = vi.fn();
+    store.subscribe((root) => (root.useA ? root.a : root.b), callback);
+    callback.mockClear();
+
+    store.root.b = 3;
+    expect(callback).not.toHaveBeenCalled();
+
+    store.root.useA = false;
+    store.root.a = 10;
+    store.root.b = 4;
+
+    expect(callback.mock.calls).toEqual([[3], [4]]);
+  });
+
+  it("should notify subscribers in subscription order", () => {
+    const store = createStore<Store>({ rows: createRows(1), users: {} });
+    const order: string[] = [];
+    store.subscribe(
+      (root) => root.rows[0]!.value,
+      () => order.push("row"),
+      { fireImmediately: false },
+    );
+    store.subscribe(
+      (root) => root.rows.length,
+      () => order.push("length"),
+      { fireImmediately: false },
+    );
+    store.subscribe(
+      (root) => root.rows,
+      () => order.push("rows"),
+      { fireImmediately: false },
+    );
+
+    store.root.rows = [
+      { id: 0, value: 1 },
+      { id: 1, value: 0 },
+    ];
+
+    expect(order).toEqual(["row", "length", "rows"]);
+  });
+
+  it("should not notify a subscription removed by an earlier callback in the same pass", () => {
+    const store = createStore<Store>({ rows: createRows(1), users: {} });
+    const second = vi.fn();
+    let unsubscribeSecond = () => {};
+    store.subscribe(
+      (root) => root.rows[0]!.value,
+      () => unsubscribeSecond(),
+      { fireImmediately: false },
+    );
+    unsubscribeSecond = store.subscribe((root) => root.rows[0]!.value, second, { fireImmediately: false });
+
+    store.root.rows[0]!.value = 1;
+
+    expect(second).not.toHaveBeenCalled();
+  });
+});
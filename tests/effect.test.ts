@@ -0,0 +1,129 @@
+import { describe, it, expect, vi } from "vitest";
+import { createStore } from "../src/index";
+
+describe("effect", () => {
+  type Store = { user: { name: string; age: number }; theme: string };
+
+  function setup() {
+    return createStore<Store>({ user: { name: "Alice", age: 30 }, theme: "light" });
+  }
+
+  it("should run immediately and re-run when accessed paths change", () => {
+    const store = setup();
+    const fn = vi.fn((root: Store) => {
+      void root.user.name;
+    });
+
+    store.effect(fn);
+    expect(fn).toHaveBeenCalledTimes(1);
+
+    store.root.theme = "dark";
+    expect(fn).toHaveBeenCalledTimes(1);
+
+    store.root.user.name = "Bob";
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("should call cleanup before each re-run and on dispose", () => {
+    const store = setup();
+    const log: string[] = [];
+
+    const dispose = store.effect((root) => {
+      const name = root.user.name;
+      log.push(`run ${name}`);
+      return () => log.push(`cleanup ${name}`);
+    });
+
+    store.root.user.name = "Bob";
+    dispose();
+    store.root.user.name = "Carol";
+
+    expect(log).toEqual(["run Alice", "cleanup Alice", "run Bob", "cleanup Bob"]);
+  });
+
+  it("should re-track dependencies on every run", () => {
+    const store = setup();
+    const fn = vi.fn((root: Store) => {
+      if (root.theme === "dark") void root.user.age;
+    });
+
+    store.effect(fn);
+    store.root.user.age = 31;
+    expect(fn).toHaveBeenCalledTimes(1);
+
+    store.root.theme = "dark";
+    store.root.user.age = 32;
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it("should run once per transaction", () => {
+    const store = setup();
+    const fn = vi.fn((root: Store) => {
+      void `${root.user.name} ${root.user.age}`;
+    });
+
+    store.effect(fn);
+    fn.mockClear();
+
+    store.apply((root) => {
+      root.user.name = "Bob";
+      root.user.age = 31;
+    });
+
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("should track computed values", () => {
+    const store = setup();
+    const upper = store.computed((root) => root.user.name.toUpperCase());
+    const seen: string[] = [];
+
+    store.effect(() => {
+      seen.push(upper.value);
+    });
+    store.root.user.name = "Bob";
+
+    expect(seen).toEqual(["ALICE", "BOB"]);
+  });
+
+  it("should be protected against infinite loops when writing to the store", () => {
+    type CounterStore = { count: number };
+    const store = createStore<CounterStore>({ count: 0 });
+    let runs = 0;
+
+    store.effect((root) => {
+      runs++;
+      if (root.count < 3) store.root.count = root.count + 1;
+    });
+
+    expect(store.root.count).toBe(3);
+    expect(runs).toBe(4);
+  });
+
+  it("should record writes made through the effect's own root", () => {
+    type DoubleStore = { a: number; b: number; c?: number };
+    const store = createStore<DoubleStore>({ a: 1, b: 0, c: 0 });
+    const changes = vi.fn();
+    store.subscribeToChanges(changes);
+    const bValues: number[] = [];
+    store.subscribe(
+      (root) => root.b,
+      (b) => bValues.push(b),
+    );
+
+    store.effect((root) => {
+      root.b = root.a * 2;
+      if (root.a > 1) delete root.c;
+    });
+    store.root.a = 2;
+
+    expect(store.snapshot()).toEqual({ a: 2, b: 4 });
+    expect(bValues).toEqual([0, 2, 4]);
+    expect(changes.mock.calls.map(([batch]) => batch)).toEqual([
+      [{ type: "property", path: "b", value: 2 }],
+      [{ type: "property", path: "a", value: 2 }],
+      [{ type: "property", path: "b", value: 4 }],
+      [{ type: "property", path: "c", value: undefined }],
+    ]);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi } from "vitest";
+import { createHistory, createStore, dateCodec, type Change } from "../src/index";
+
+describe("store.fork", () => {
+  type State = { settings: { theme: string; tags: string[]; flags?: Record<string, boolean> } };
+
+  it("should edit a copy of the state without touching the parent", () => {
+    const store = createStore<State>({ settings: { theme: "light", tags: ["a"] } });
+    const parentCallback = vi.fn();
+    store.subscribe((root) => root.settings.theme, parentCallback, { fireImmediately: false });
+
+    const fork = store.fork((root) => root.settings);
+    const themes: string[] = [];
+    fork.subscribe(
+      (root) => root.theme,
+      (theme) => themes.push(theme),
+    );
+    fork.root.theme = "dark";
+
+    expect(fork.root.theme).toBe("dark");
+    expect(store.root.settings.theme).toBe("light");
+    expect(themes).toEqual(["light", "dark"]);
+    expect(parentCallback).not.toHaveBeenCalled();
+  });
+
+  it("should merge the fork's changes into the parent as one batch at the selected path", () => {
+    const store = createStore<State>({ settings: { theme: "light", tags: ["a"] } });
+    const batches: Change[][] = [];
+    store.subscribeToChanges((changes) => batches.push(changes));
+
+    const fork = store.fork((root) => root.settings);
+    fork.root.theme = "dark";
+    fork.root.tags.push("b");
+    fork.merge();
+
+    expect(store.root.settings).toEqual({ theme: "dark", tags: ["a", "b"] });
+    expect(batches).toEqual([
+      [
+        { type: "property", path: "settings.theme", value: "dark" },
+        { type: "array", path: "settings.tags", method: "push", args: ["b"] },
+      ],
+    ]);
+    expect(fork.isDirty).toBe(false);
+  });
+
+  it("should merge as a local batch, through middleware and into the history", () => {
+    type Store = { title: string; settings: { theme: string } };
+    const store = createStore<Store>({ title: "base", settings: { theme: "light" } });
+    const sources: string[] = [];
+    store.use((change, next, context) => {
+      sources.push(context.source);
+      next(change);
+    });
+    const history = createHistory(store);
+    store.root.title = "edited";
+
+    const fork = store.fork((root) => root.settings);
+    fork.root.theme = "dark";
+    fork.merge();
+
+    expect(sources).toEqual(["local", "local"]);
+    expect(history.undo()).toBe(true);
+    expect(store.root.settings.theme).toBe("light");
+    expect(history.undo()).toBe(true);
+    expect(store.root.title).toBe("base");
+  });
+
+  it("should fork the whole state without a selector", () => {
+    type Store = { title: string; forms: Map<string, { name: string }> };
+    const store = createStore<Store>({ title: "base", forms: new Map([["profile", { name: "Ann" }]]) });
+    const fork = store.fork();
+    fork.root.title = "draft";
+    fork.root.forms.get("profile")!.name = "Bob";
+    fork.merge();
+
+    expect(store.root.title).toBe("draft");
+    expect(store.root.forms.get("profile")!.name).toBe("Bob");
+  });
+
+  it("should fork an object inside a Map", () => {
+    type Store = { forms: Map<string, { name: string }> };
+    const store = createStore<Store>({ forms: new Map([["profile", { name: "Ann" }]]) });
+    const fork = store.fork((root) => root.forms.get("profile")!);
+    fork.root.name = "Bob";
+    fork.merge();
+
+    expect(store.root.forms.get("profile")).toEqual({ name: "Bob" });
+  });
+
+  it("should reset the fork to the parent's state on discard", () => {
+    const store = createStore<State>({ settings: { theme: "light", tags: ["a"] } });
+    const fork = store.fork((root) => root.settings);
+    fork.root.theme = "dark";
+    fork.root.flags = { beta: true };
+    store.root.settings.tags.push("c");
+
+    fork.discard();
+
+    expect(fork.snapshot()).toEqual({ theme: "light", tags: ["a", "c"] });
+    expect(store.root.settings).toEqual({ theme: "light", tags: ["a", "c"] });
+    expect(fork.isDirty).toBe(false);
+
+    // Discarded changes are not merged later
+    fork.root.theme = "blue";
+    fork.merge();
+    expect(store.root.settings).toEqual({ theme: "blue", tags: ["a", "c"] });
+  });
+
+  it("should report isDirty to subscribers when it changes", () => {
+    const store = createStore<State>({ settings: { theme: "light", tags: ["a"] } });
+    const fork = store.fork((root) => root.settings);
+    const states: boolean[] = [];
+    fork.subscribeToDirty((isDirty) => states.push(isDirty));
+
+    fork.root.theme = "dark";
+    fork.root.theme = "blue";
+    fork.merge();
+    fork.root.tags.push("b");
+    fork.discard();
+
+    expect(states).toEqual([false, true, false, true, false]);
+  });
+
+  it("should not record batches the fork's change subscribers reject", () => {
+    const store = createStore<State>({ settings: { theme: "light", tags: ["a"] } });
+    const fork = store.fork((root) => root.settings);
+    fork.subscribeToChanges(() => {
+      throw new Error("rejected");
+    });
+
+    expect(() => (fork.root.theme = "dark")).toThrow("rejected");
+    expect(fork.root.theme).toBe("light");
+    expect(fork.isDirty).toBe(false);
+  });
+
+  it("should keep the changes when merging fails", () => {
+    const store = createStore<State>({ settings: { theme: "light", tags: ["a"] } });
+    const fork = store.fork((root) => root.settings);
+    fork.root.theme = "dark";
+    const unsubscribe = store.subscribeToChanges(() => {
+      throw new Error("rejected");
+    });
+
+    expect(() => fork.merge()).toThrow("rejected");
+    expect(fork.isDirty).toBe(true);
+
+    unsubscribe();
+    fork.merge();
+    expect(store.root.settings.theme).toBe("dark");
+  });
+
+  it("should carry codec values through the merge", () => {
+    type Dated = { event: { at: Date } };
+    const store = createStore<Dated>({ event: { at: new Date(0) } }, { codecs: [dateCodec] });
+    const fork = store.fork((root) => root.event);
+    fork.root.at = new Date(1000);
+    fork.merge();
+
+    expect(store.root.event.at).toEqual(new Date(1000));
+  });
+
+  it("should reject selectors that do not return a plain object from the state", () => {
+    const store = createStore<State>({ settings: { theme: "light", tags: ["a"] } });
+    expect(() => store.fork((root) => root.settings.tags)).toThrow(
+      "fork() selector must return a plain object from the state.",
+    );
+    expect(() => store.fork(() => ({ theme: "dark" }))).toThrow(
+      "fork() selector must return a plain object from the state.",
+    );
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect, vi } from "vitest";
+import { createStore, createHistory } from "../src/index";
+
+describe("createHistory", () => {
+  it("should undo and redo property changes", () => {
+    type Store = { user: { name: string } };
+    const store = createStore<Store>({ user: { name: "Alice" } });
+    const history = createHistory(store);
+
+    store.root.user.name = "Bob";
+    store.root.user.name = "Carol";
+
+    expect(history.undo()).toBe(true);
+    expect(store.root.user.name).toBe("Bob");
+    expect(history.undo()).toBe(true);
+    expect(store.root.user.name).toBe("Alice");
+    expect(history.undo()).toBe(false);
+
+    expect(history.redo()).toBe(true);
+    expect(store.root.user.name).toBe("Bob");
+    expect(history.redo()).toBe(true);
+    expect(store.root.user.name).toBe("Carol");
+    expect(history.redo()).toBe(false);
+  });
+
+  it("should treat one apply() transaction as one step", () => {
+    type Store = { a: number; b: number };
+    const store = createStore<Store>({ a: 1, b: 2 });
+    const history = createHistory(store);
+
+    store.apply((root) => {
+      root.a = 10;
+      root.b = 20;
+    });
+
+    history.undo();
+
+    expect(store.snapshot()).toEqual({ a: 1, b: 2 });
+    expect(history.canUndo).toBe(false);
+  });
+
+  it("should undo array mutations", () => {
+    type Store = { items: string[] };
+    const store = createStore<Store>({ items: ["c", "a", "b"] });
+    const history = createHistory(store);
+
+    store.root.items.push("d", "e");
+    store.root.items.pop();
+    store.root.items.shift();
+    store.root.items.unshift("x");
+    store.root.items.splice(1, 2, "y");
+    store.root.items.sort();
+    expect(store.root.items).toEqual(["d", "x", "y"]);
+
+    while (history.undo());
+
+    expect(store.root.items).toEqual(["c", "a", "b"]);
+
+    while (history.redo());
+
+    expect(store.root.items).toEqual(["d", "x", "y"]);
+  });
+
+  it("should not be affected by later mutations of recorded values", () => {
+    type Store = { user?: { name: string } };
+    const store = createStore<Store>({});
+    const history = createHistory(store);
+
+    store.root.user = { name: "Alice" };
+    store.root.user.name = "Bob";
+
+    history.undo();
+    expect(store.root.user).toEqual({ name: "Alice" });
+    history.undo();
+    expect(store.root.user).toBeUndefined();
+    history.redo();
+    expect(store.root.user).toEqual({ name: "Alice" });
+  });
+
+  it("should clear the redo stack on a new local change", () => {
+    type Store = { x: number };
+    const store = createStore<Store>({ x: 1 });
+    const history = createHistory(store);
+
+    store.root.x = 2;
+    history.undo();
+    store.root.x = 3;
+
+    expect(history.canRedo).toBe(false);
+    expect(history.redo()).toBe(false);
+  });
+
+  it("should respect maxDepth", () => {
+    type Store = { x: number };
+    const store = createStore<Store>({ x: 0 });
+    const history = createHistory(store, { maxDepth: 2 });
+
+    store.root.x = 1;
+    store.root.x = 2;
+    store.root.x = 3;
+
+    while (history.undo());
+
+    expect(store.root.x).toBe(1);
+  });
+
+  it("should notify canUndo/canRedo subscribers only when flags change", () => {
+    type Store = { x: number };
+    const store = createStore<Store>({ x: 0 });
+    const history = createHistory(store);
+    const callback = vi.fn();
+
+    history.subscribe(callback);
+    expect(callback).toHaveBeenCalledWith({ canUndo: false, canRedo: false });
+    callback.mockClear();
+
+    store.root.x = 1;
+    store.root.x = 2;
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledWith({ canUndo: true, canRedo: false });
+
+    history.undo();
+    expect(callback).toHaveBeenLastCalledWith({ canUndo: true, canRedo: true });
+  });
+
+  it("should not record remote changes and drop conflicting steps", () => {
+    type Store = { a: number; b: number };
+    const store = createStore<Store>({ a: 1, b: 1 });
+    const history = createHistory(store);
+
+    store.root.a = 2;
+    store.root.b = 2;
+    store.applyChanges([{ type: "property", path: "b", value: 5 }]);
+
+    expect(history.undo()).toBe(true);
+    expect(store.snapshot()).toEqual({ a: 1, b: 5 });
+    expect(history.canUndo).toBe(false);
+  });
+
+  it("should rebase steps onto remote changes instead of dropping them", () => {
+    type Store = { items: string[]; user: { name: string; age: number } };
+    const store = createStore<Store>({ items: ["a"], user: { name: "Ann", age: 30 } });
+    const history = createHistory(store);
+
+    store.root.items.push("b");
+    store.apply((root) => {
+      root.user.name = "Bob";
+      root.user.age = 31;
+    });
+    store.applyChanges([
+      { type: "array", path: "items", method: "unshift", args: ["x"] },
+      { type: "property", path: "user.age", value: 40 },
+    ]);
+
+    expect(history.undo()).toBe(true);
+    expect(store.root.user).toEqual({ name: "Ann", age: 40 });
+    expect(history.undo()).toBe(true);
+    expect(store.root.items).toEqual(["x", "a"]);
+
+    store.applyChanges([{ type: "array", path: "items", method: "push", args: ["y"] }]);
+    history.redo();
+    history.redo();
+    expect(store.snapshot()).toEqual({ items: ["x", "a", "b", "y"], user: { name: "Bob", age: 40 } });
+  });
+
+  it("should keep inverse changes correct after remote array changes", () => {
+    type Store = { items: string[]; title: string };
+    const store = createStore<Store>({ items: ["a"], title: "x" });
+    const history = createHistory(store);
+
+    store.root.title = "y";
+    store.applyChanges([{ type: "array", path: "items", method: "push", args: ["b"] }]);
+    store.root.items.push("c");
+
+    history.undo();
+    expect(store.root.items).toEqual(["a", "b"]);
+    history.undo();
+    expect(store.root.title).toBe("x");
+  });
+
+  it("should not record batches that a change subscriber rejects", () => {
+    type Store = { a: number };
+    const store = createStore<Store>({ a: 1 });
+    const history = createHistory(store);
+    const callback = vi.fn();
+    history.subscribe(callback);
+    store.subscribeToChanges((changes) => {
+      if (changes.some((change) => change.type === "property" && change.value === 5)) throw new Error("rejected");
+    });
+
+    expect(() => (store.root.a = 5)).toThrow("rejected");
+    expect(history.canUndo).toBe(false);
+    expect(callback).toHaveBeenCalledTimes(1);
+
+    store.root.a = 7;
+    history.undo();
+    expect(store.root.a).toBe(1);
+  });
+
+  it("should stop recording after dispose", () => {
+    type Store = { x: number };
+    const store = createStore<Store>({ x: 0 });
+    const history = createHistory(store);
+
+    history.dispose();
+    store.root.x = 1;
+
+    expect(history.canUndo).toBe(false);
+  });
+});
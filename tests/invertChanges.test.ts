@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { createStore, invertChanges } from "../src/index";
+import type { Change } from "../src/index";
+
+describe("invertChanges", () => {
+  function record<T extends object>(initial: T, fn: (root: T) => void) {
+    const store = createStore<T>(structuredClone(initial), { invertible: true });
+    const changes: Change[] = [];
+    store.subscribeToChanges((c) => changes.push(...c));
+    store.apply(fn);
+    return { store, changes };
+  }
+
+  it("should record oldValue on property changes", () => {
+    const { changes } = record({ user: { name: "Alice" } }, (root) => {
+      root.user.name = "Bob";
+    });
+
+    expect(changes).toEqual([{ type: "property", path: "user.name", value: "Bob", oldValue: "Alice" }]);
+  });
+
+  it("should record removed elements and resolved index on splice", () => {
+    const { changes } = record({ items: ["a", "b", "c", "d"] }, (root) => {
+      root.items.splice(-3, 2, "x");
+    });
+
+    expect(changes[0]).toMatchObject({ method: "splice", removed: ["b", "c"], index: 1 });
+  });
+
+  it("should not record inverse data unless enabled", () => {
+    const store = createStore<{ x: number }>({ x: 1 });
+    const changes: Change[] = [];
+    store.subscribeToChanges((c) => changes.push(...c));
+
+    store.root.x = 2;
+
+    expect(changes[0]).not.toHaveProperty("oldValue");
+    expect(() => invertChanges(changes)).toThrow(/inverse data is missing/);
+  });
+
+  it("should restore property changes, additions and deletions", () => {
+    type State = { a: number; b?: { c: number }; d?: string };
+    const initial: State = { a: 1, b: { c: 2 } };
+    const { store, changes } = record<State>(initial, (root) => {
+      root.a = 10;
+      root.d = "new";
+      delete root.b;
+    });
+
+    store.applyChanges(invertChanges(changes));
+
+    expect(store.snapshot()).toEqual(initial);
+    expect("d" in store.root).toBe(false);
+  });
+
+  it("should restore every array mutator", () => {
+    const initial = { items: [3, 1, 4, 1, 5, 9, 2, 6] };
+    const { store, changes } = record(initial, (root) => {
+      root.items.push(7, 8);
+      root.items.pop();
+      root.items.shift();
+      root.items.unshift(0);
+      root.items.splice(2, 3, 42);
+      root.items.sort();
+      root.items.reverse();
+      root.items.fill(0, 1, 3);
+      root.items.copyWithin(0, 3);
+    });
+
+    store.applyChanges(invertChanges(changes));
+
+    expect(store.snapshot()).toEqual(initial);
+  });
+
+  it("should restore writes that change an array's length", () => {
+    const shortened = record({ list: [1, 2, 3] }, (root) => {
+      root.list.length = 1;
+    });
+    expect(shortened.changes[0]).toMatchObject({ previousLength: 3, removed: [2, 3] });
+    shortened.store.applyChanges(invertChanges(shortened.changes));
+    expect(shortened.store.snapshot()).toEqual({ list: [1, 2, 3] });
+
+    const extended = record({ list: [1] }, (root) => {
+      root.list[3] = 9;
+      root.list.length = 6;
+    });
+    const inverse = invertChanges(extended.changes);
+    extended.store.applyChanges(inverse);
+    expect(extended.store.snapshot()).toEqual({ list: [1] });
+
+    extended.store.applyChanges(invertChanges(inverse));
+    expect(extended.store.root.list).toEqual([1, undefined, undefined, 9, undefined, undefined]);
+  });
+
+  it("should produce changes that can be inverted again", () => {
+    const { store, changes } = record({ x: 1 }, (root) => {
+      root.x = 2;
+    });
+
+    store.applyChanges(invertChanges(invertChanges(changes)));
+
+    expect(store.root.x).toBe(2);
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect } from "vitest";
+import { createStore, toJsonPatch, fromJsonPatch } from "../src/index";
+import type { Change } from "../src/index";
+
+function record<T extends object>(initial: T, fn: (root: T) => void): { base: T; changes: Change[]; result: T } {
+  const store = createStore<T>(structuredClone(initial));
+  const changes: Change[] = [];
+  store.subscribeToChanges((c) => changes.push(...c));
+  store.apply(fn);
+  return { base: structuredClone(initial), changes, result: store.snapshot() };
+}
+
+describe("toJsonPatch", () => {
+  it("should map property changes to add/replace/remove", () => {
+    type State = { a: number; b?: number; c?: number };
+    const { base, changes } = record<State>({ a: 1, c: 3 }, (root) => {
+      root.a = 2;
+      root.b = 5;
+      delete root.c;
+    });
+
+    expect(toJsonPatch(changes, base)).toEqual([
+      { op: "replace", path: "/a", value: 2 },
+      { op: "add", path: "/b", value: 5 },
+      { op: "remove", path: "/c" },
+    ]);
+  });
+
+  it("should map deleted array elements to null instead of removing them", () => {
+    const { base, changes } = record<{ items: number[] }>({ items: [1, 2, 3] }, (root) => {
+      delete root.items[1];
+    });
+
+    expect(toJsonPatch(changes, base)).toEqual([{ op: "replace", path: "/items/1", value: null }]);
+    expect(toJsonPatch(changes)).toEqual([{ op: "replace", path: "/items/1", value: null }]);
+  });
+
+  it("should escape ~ and / in JSON Pointers", () => {
+    expect(toJsonPatch([{ type: "property", path: "a/b.c~d", value: 1 }])).toEqual([
+      { op: "add", path: "/a~1b/c~0d", value: 1 },
+    ]);
+  });
+
+  it("should expand array method calls into index-level operations", () => {
+    const { base, changes } = record({ items: ["c", "a", "b"] }, (root) => {
+      root.items.push("d");
+      root.items.shift();
+      root.items.unshift("x", "y");
+      root.items.pop();
+      root.items.splice(-2, 1, "z");
+      root.items.sort();
+    });
+
+    expect(toJsonPatch(changes, base)).toEqual([
+      { op: "add", path: "/items/-", value: "d" },
+      { op: "remove", path: "/items/0" },
+      { op: "add", path: "/items/0", value: "x" },
+      { op: "add", path: "/items/1", value: "y" },
+      { op: "remove", path: "/items/4" },
+      { op: "remove", path: "/items/2" },
+      { op: "add", path: "/items/2", value: "z" },
+      { op: "replace", path: "/items/0", value: "b" },
+      { op: "replace", path: "/items/1", value: "x" },
+      { op: "replace", path: "/items/2", value: "y" },
+      { op: "replace", path: "/items/3", value: "z" },
+    ]);
+  });
+
+  it("should expand writes that resize an array into element operations", () => {
+    const { base, changes } = record<{ list: number[] }>({ list: [1, 2, 3] }, (root) => {
+      root.list.length = 1;
+      root.list[3] = 9;
+    });
+    const expected = [
+      { op: "remove", path: "/list/2" },
+      { op: "remove", path: "/list/1" },
+      { op: "add", path: "/list/1", value: null },
+      { op: "add", path: "/list/2", value: null },
+      { op: "add", path: "/list/3", value: 9 },
+    ];
+
+    expect(toJsonPatch(changes, base)).toEqual(expected);
+
+    const store = createStore<{ list: number[] }>({ list: [1, 2, 3] }, { invertible: true });
+    const inverted: Change[] = [];
+    store.subscribeToChanges((c) => inverted.push(...c));
+    store.root.list.length = 1;
+    store.root.list[3] = 9;
+    expect(toJsonPatch(inverted)).toEqual(expected);
+  });
+
+  it("should use inverse data when no base state is given", () => {
+    const store = createStore<{ items: number[] }>({ items: [3, 1, 2] }, { invertible: true });
+    const changes: Change[] = [];
+    store.subscribeToChanges((c) => changes.push(...c));
+
+    store.root.items.splice(-1, 1);
+    store.root.items.reverse();
+
+    expect(toJsonPatch(changes)).toEqual([
+      { op: "remove", path: "/items/2" },
+      { op: "replace", path: "/items/0", value: 1 },
+      { op: "replace", path: "/items/1", value: 3 },
+    ]);
+  });
+
+  it("should throw when indexes cannot be resolved", () => {
+    expect(() => toJsonPatch([{ type: "array", path: "items", method: "pop", args: [] }])).toThrow(/base state/);
+    expect(() => toJsonPatch([{ type: "property", path: "items.length", value: 1 }])).toThrow(/base state/);
+  });
+});
+
+describe("fromJsonPatch", () => {
+  it("should round-trip changes through JSON Patch", () => {
+    const initial = {
+      user: { name: "Alice", tags: ["a", "b", "c"] } as { name: string; tags: string[]; age?: number },
+    };
+    const { base, changes, result } = record(initial, (root) => {
+      root.user.name = "Bob";
+      root.user.age = 30;
+      root.user.tags.splice(1, 1, "x", "y");
+      root.user.tags.reverse();
+    });
+
+    const store = createStore(base);
+    store.applyChanges(fromJsonPatch(toJsonPatch(changes, base), base));
+
+    expect(store.snapshot()).toEqual(result);
+  });
+
+  it("should treat numeric segments as array indexes without base state", () => {
+    expect(
+      fromJsonPatch([
+        { op: "add", path: "/items/-", value: 1 },
+        { op: "add", path: "/items/0", value: 2 },
+        { op: "remove", path: "/items/1" },
+        { op: "remove", path: "/user/name" },
+      ]),
+    ).toEqual([
+      { type: "array", path: "items", method: "push", args: [1] },
+      { type: "array", path: "items", method: "splice", args: [0, 0, 2] },
+      { type: "array", path: "items", method: "splice", args: [1, 1] },
+      { type: "property", path: "user.name", value: undefined },
+    ]);
+  });
+
+  it("should reject unsupported pointers", () => {
+    expect(() => fromJsonPatch([{ op: "add", path: "", value: {} }])).toThrow(/document root/);
+    expect(() => fromJsonPatch([{ op: "add", path: "a", value: 1 }])).toThrow(/Invalid JSON Pointer/);
+  });
+});
+
+describe("applyJsonPatch", () => {
+  it("should apply all operation types", () => {
+    type State = { a: Record<string, number>; list: number[]; copy?: number };
+    const store = createStore<State>({ a: { "1": 1, x: 2 }, list: [1, 2, 3] });
+
+    store.applyJsonPatch([
+      { op: "test", path: "/a/x", value: 2 },
+      { op: "add", path: "/a/1", value: 10 },
+      { op: "replace", path: "/list/0", value: 0 },
+      { op: "move", from: "/list/2", path: "/list/0" },
+      { op: "copy", from: "/a/x", path: "/copy" },
+      { op: "remove", path: "/a/x" },
+    ]);
+
+    expect(store.snapshot()).toEqual({ a: { "1": 10 }, list: [3, 0, 2], copy: 2 });
+  });
+
+  it("should leave the store untouched when a test fails", () => {
+    const store = createStore<{ a: number; b: number }>({ a: 1, b: 1 });
+
+    expect(() =>
+      store.applyJsonPatch([
+        { op: "replace", path: "/a", value: 2 },
+        { op: "test", path: "/b", value: 2 },
+      ]),
+    ).toThrow(/test failed/);
+
+    expect(store.snapshot()).toEqual({ a: 1, b: 1 });
+  });
+});
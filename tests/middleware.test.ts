@@ -0,0 +1,231 @@
+import { describe, it, expect, vi } from "vitest";
+import { createStore, dateCodec, type Change, type Middleware } from "../src/index";
+
+describe("middleware", () => {
+  type Row = { title: string; locked?: boolean; updatedAt?: number };
+  type State = { volume: number; rows: Row[] };
+
+  const clampVolume: Middleware<{ volume: number }> = (change, next) => {
+    if (change.type === "property" && change.path === "volume") {
+      next({ ...change, value: Math.min(10, Math.max(0, change.value as number)) });
+    } else {
+      next(change);
+    }
+  };
+
+  const rejectLocked: Middleware<{ rows: Row[] }> = (change, next, { root }) => {
+    const match = /^rows\.(\d+)\./.exec(change.path);
+    if (match && root.rows[Number(match[1])]?.locked) {
+      throw new Error(`Row ${match[1]} is locked.`);
+    }
+    next(change);
+  };
+
+  const stampRows: Middleware<{ rows: Row[] }> = (change, next) => {
+    next(change);
+    const match = /^rows\.(\d+)\.title$/.exec(change.path);
+    if (match) next({ type: "property", path: `rows.${match[1]}.updatedAt`, value: 1000 });
+  };
+
+  it("should rewrite proxy writes", () => {
+    const store = createStore<{ volume: number }>({ volume: 5 }, { middleware: [clampVolume] });
+    store.root.volume = 42;
+    expect(store.root.volume).toBe(10);
+    store.root.volume = -1;
+    expect(store.root.volume).toBe(0);
+  });
+
+  it("should emit added changes in the same batch as the write", () => {
+    const store = createStore<{ rows: Row[] }>({ rows: [{ title: "a" }] }, { middleware: [stampRows] });
+    const batches: Change[][] = [];
+    store.subscribeToChanges((changes) => batches.push(changes));
+    const callback = vi.fn();
+    store.subscribe((root) => root.rows[0]!.updatedAt, callback, { fireImmediately: false });
+
+    store.root.rows[0]!.title = "x";
+
+    expect(store.root.rows[0]).toEqual({ title: "x", updatedAt: 1000 });
+    expect(batches).toEqual([
+      [
+        { type: "property", path: "rows.0.title", value: "x" },
+        { type: "property", path: "rows.0.updatedAt", value: 1000 },
+      ],
+    ]);
+    expect(callback).toHaveBeenCalledOnce();
+  });
+
+  it("should roll back the whole transaction when a middleware rejects a change", () => {
+    const store = createStore<State>(
+      { volume: 5, rows: [{ title: "a" }, { title: "b", locked: true }] },
+      { middleware: [rejectLocked] },
+    );
+    const onChange = vi.fn();
+    store.subscribeToChanges(onChange);
+
+    expect(() =>
+      store.apply((root) => {
+        root.volume = 7;
+        root.rows[1]!.title = "changed";
+      }),
+    ).toThrow("Row 1 is locked.");
+    expect(store.root.volume).toBe(5);
+    expect(store.root.rows[1]!.title).toBe("b");
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it("should drop changes a middleware does not pass on", () => {
+    const store = createStore<State>(
+      { volume: 5, rows: [{ title: "a" }, { title: "b" }] },
+      { middleware: [(change, next) => change.path !== "volume" && next(change)] },
+    );
+    store.root.volume = 1;
+    store.root.rows.push({ title: "c" });
+    expect(store.root.volume).toBe(5);
+    expect(store.root.rows.length).toBe(3);
+  });
+
+  it("should rewrite array method args and return the method's result", () => {
+    const upper: Middleware<{ rows: Row[] }> = (change, next) => {
+      if (change.type === "array" && change.method === "push") {
+        next({
+          ...change,
+          args: change.args.map((row) => ({ ...(row as Row), title: (row as Row).title.toUpperCase() })),
+        });
+      } else {
+        next(change);
+      }
+    };
+    const store = createStore<{ rows: Row[] }>({ rows: [{ title: "a" }, { title: "b" }] }, { middleware: [upper] });
+    expect(store.root.rows.push({ title: "c" })).toBe(3);
+    expect(store.root.rows[2]!.title).toBe("C");
+    expect(store.root.rows.pop()).toEqual({ title: "C" });
+  });
+
+  it("should see Map and Set mutations", () => {
+    type Store = { tags: Set<string>; meta: Map<string, number> };
+    const seen: string[] = [];
+    const store = createStore<Store>(
+      { tags: new Set(), meta: new Map() },
+      {
+        middleware: [
+          (change, next) => {
+            seen.push(`${change.type}:${"method" in change ? change.method : ""}`);
+            next(change);
+          },
+        ],
+      },
+    );
+    store.root.tags.add("x");
+    expect(store.root.meta.set("a", 1)).toBe(store.root.meta);
+    expect(store.root.tags.has("x")).toBe(true);
+    expect(store.root.meta.get("a")).toBe(1);
+    expect(seen).toEqual(["set:add", "map:set"]);
+  });
+
+  it("should run middleware in order, and only the later ones on changes passed to next", () => {
+    const order: string[] = [];
+    const log =
+      (name: string): Middleware =>
+      (change, next) => {
+        order.push(`${name}:${change.path}`);
+        next(change);
+      };
+    const store = createStore<{ rows: Row[] }>(
+      { rows: [{ title: "a" }] },
+      { middleware: [stampRows, log("first"), log("second")] },
+    );
+    store.root.rows[0]!.title = "x";
+    expect(order).toEqual([
+      "first:rows.0.title",
+      "second:rows.0.title",
+      "first:rows.0.updatedAt",
+      "second:rows.0.updatedAt",
+    ]);
+  });
+
+  it("should intercept applyChanges with the remote source", () => {
+    const sources: string[] = [];
+    const store = createStore<State>(
+      { volume: 5, rows: [{ title: "a" }, { title: "b", locked: true }] },
+      {
+        middleware: [
+          (change, next, { source }) => {
+            sources.push(source);
+            next(change);
+          },
+          clampVolume,
+          rejectLocked,
+        ],
+      },
+    );
+    store.applyChanges([{ type: "property", path: "volume", value: 99 }]);
+    expect(store.root.volume).toBe(10);
+    expect(sources).toEqual(["remote"]);
+
+    expect(() =>
+      store.applyChanges([
+        { type: "property", path: "volume", value: 3 },
+        { type: "property", path: "rows.1.title", value: "x" },
+      ]),
+    ).toThrow("Row 1 is locked.");
+    expect(store.root.volume).toBe(10);
+  });
+
+  it("should add and remove middleware with use()", () => {
+    const store = createStore<{ volume: number }>({ volume: 5 });
+    const remove = store.use(clampVolume);
+    store.root.volume = 20;
+    expect(store.root.volume).toBe(10);
+
+    remove();
+    store.root.volume = 20;
+    expect(store.root.volume).toBe(20);
+  });
+
+  it("should validate changes that come out of middleware", () => {
+    const store = createStore<{ volume: number }>(
+      { volume: 5 },
+      { middleware: [(change, next) => next({ ...change, value: () => {} } as Change)] },
+    );
+    expect(() => (store.root.volume = 1)).toThrow();
+    expect(store.root.volume).toBe(5);
+  });
+
+  it("should record inverse data for intercepted writes in invertible stores", () => {
+    const store = createStore<State>(
+      { volume: 5, rows: [{ title: "a" }] },
+      { invertible: true, middleware: [clampVolume] },
+    );
+    const batches: Change[][] = [];
+    store.subscribeToChanges((changes) => batches.push(changes));
+    store.root.volume = 50;
+    store.root.rows.splice(0, 1);
+
+    expect(batches).toEqual([
+      [{ type: "property", path: "volume", value: 10, oldValue: 5 }],
+      [{ type: "array", path: "rows", method: "splice", args: [0, 1], removed: [{ title: "a" }], index: 0 }],
+    ]);
+  });
+
+  it("should pass decoded codec values to middleware", () => {
+    type Dated = { at: Date };
+    const seen: unknown[] = [];
+    const store = createStore<Dated>(
+      { at: new Date(0) },
+      {
+        codecs: [dateCodec],
+        middleware: [
+          (change, next) => {
+            if (change.type === "property") seen.push(change.value);
+            next(change);
+          },
+        ],
+      },
+    );
+    store.applyChanges([
+      { type: "property", path: "at", value: { $codec: "Date", value: "1970-01-01T00:00:01.000Z" } },
+    ]);
+    expect(seen).toEqual([new Date(1000)]);
+    expect(store.root.at).toEqual(new Date(1000));
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import { createMemoryAdapter, createStore, deserialize, MigrationError, persist, serialize } from "../src/index";
+
+describe("persisted state migrations", () => {
+  type State = { profile: { firstName: string; lastName: string }; theme: "light" | "dark" };
+
+  function createState(): State {
+    return { profile: { firstName: "", lastName: "" }, theme: "light" };
+  }
+
+  const migrations = {
+    // v1 stored the full name in a single field
+    2: (state: { name: string; theme: string }) => {
+      const [firstName = "", lastName = ""] = state.name.split(" ");
+      return { profile: { firstName, lastName }, theme: state.theme };
+    },
+    // v2 allowed any theme name
+    3: (state: State) => ({ ...state, theme: state.theme === "dark" ? "dark" : "light" }),
+  };
+
+  it("should tag saved state with its version", async () => {
+    const adapter = createMemoryAdapter();
+    const store = createStore<State>(createState());
+    const persistence = persist(store, { adapter, key: "app", version: 3, migrations });
+
+    store.root.theme = "dark";
+    await persistence.flush();
+
+    expect(deserialize<{ version: number }>(adapter.getItem("app") as string).version).toBe(3);
+  });
+
+  it("should run the migration chain on hydration and save the result", async () => {
+    const adapter = createMemoryAdapter({ app: serialize({ state: { name: "Ada Lovelace", theme: "solarized" } }) });
+    const store = createStore<State>(createState());
+
+    const persistence = persist(store, { adapter, key: "app", version: 3, migrations });
+    await persistence.hydrated;
+    await persistence.flush();
+
+    expect(store.snapshot()).toEqual({ profile: { firstName: "Ada", lastName: "Lovelace" }, theme: "light" });
+    expect(deserialize(adapter.getItem("app") as string)).toEqual({ version: 3, state: store.snapshot() });
+  });
+
+  it("should start the chain at the stored version", async () => {
+    const adapter = createMemoryAdapter({
+      app: serialize({ version: 2, state: { profile: { firstName: "A", lastName: "B" }, theme: "dark" } }),
+    });
+    const store = createStore<State>(createState());
+
+    await persist(store, { adapter, key: "app", version: 3, migrations: { 3: migrations[3] } }).hydrated;
+
+    expect(store.root.theme).toBe("dark");
+  });
+
+  it("should report a missing migration", async () => {
+    const adapter = createMemoryAdapter({ app: serialize({ version: 1, state: {} }) });
+    const store = createStore<State>(createState());
+
+    const error = await persist(store, {
+      adapter,
+      key: "app",
+      version: 3,
+      migrations: { 3: migrations[3] },
+    }).hydrated.catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(MigrationError);
+    expect(error).toMatchObject({
+      message: "Cannot migrate stored state: no migration to version 2 is defined.",
+      fromVersion: 1,
+      toVersion: 2,
+    });
+    expect(store.snapshot()).toEqual(createState());
+  });
+
+  it("should report a failing migration with its cause", async () => {
+    const adapter = createMemoryAdapter({ app: serialize({ state: { theme: "dark" } }) });
+    const store = createStore<State>(createState());
+
+    const error = await persist(store, { adapter, key: "app", version: 2, migrations }).hydrated.catch(
+      (e: unknown) => e,
+    );
+
+    expect(error).toBeInstanceOf(MigrationError);
+    expect((error as MigrationError).message).toBe("Migration to version 2 failed.");
+    expect((error as MigrationError).cause).toBeInstanceOf(TypeError);
+  });
+
+  it("should validate the migrated state", async () => {
+    const adapter = createMemoryAdapter({ app: serialize({ state: {} }) });
+    const store = createStore<State>(createState());
+
+    const hydrated = persist(store, {
+      adapter,
+      key: "app",
+      version: 2,
+      migrations: { 2: () => ({ theme: () => "dark" }) },
+    }).hydrated;
+
+    await expect(hydrated).rejects.toThrow(MigrationError);
+    await expect(hydrated).rejects.toThrow(/Non-serializable value of type "Function" at path "root.theme"/);
+  });
+
+  it("should refuse state saved by a newer version and leave it in storage", async () => {
+    const stored = serialize({ version: 4, state: { theme: "dark" } });
+    const adapter = createMemoryAdapter({ app: stored });
+    const store = createStore<State>(createState());
+    const persistence = persist(store, { adapter, key: "app", version: 3, migrations });
+
+    await expect(persistence.hydrated).rejects.toThrow(
+      "Stored state has version 4, which is newer than the current version 3.",
+    );
+    store.root.theme = "dark";
+    await persistence.flush();
+
+    expect(adapter.getItem("app")).toBe(stored);
+  });
+});
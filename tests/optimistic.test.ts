@@ -0,0 +1,167 @@
+import { describe, it, expect, vi } from "vitest";
+import { createStore, dateCodec } from "../src/index";
+
+describe("store.optimistic", () => {
+  type State = { title: string; count: number; items: string[] };
+
+  it("should apply the update immediately and keep it once committed", () => {
+    const store = createStore<{ title: string }>({ title: "base" });
+    const titles: string[] = [];
+    store.subscribe(
+      (root) => root.title,
+      (title) => titles.push(title),
+    );
+
+    const update = store.optimistic((root) => {
+      root.title = "tentative";
+    });
+    expect(store.root.title).toBe("tentative");
+
+    update.commit();
+    expect(store.root.title).toBe("tentative");
+    expect(titles).toEqual(["base", "tentative"]);
+  });
+
+  it("should undo the update on revert", () => {
+    type Store = { title: string; items: string[] };
+    const store = createStore<Store>({ title: "base", items: [] });
+    const titles: string[] = [];
+    store.subscribe(
+      (root) => root.title,
+      (title) => titles.push(title),
+    );
+
+    const update = store.optimistic((root) => {
+      root.title = "tentative";
+      root.items.push("a");
+    });
+    update.revert();
+
+    expect(store.snapshot()).toEqual({ title: "base", items: [] });
+    expect(titles).toEqual(["base", "tentative", "base"]);
+  });
+
+  it("should keep later updates when an earlier one is reverted", () => {
+    type Store = { title: string; items: string[] };
+    const store = createStore<Store>({ title: "base", items: [] });
+    const first = store.optimistic((root) => {
+      root.items.push("first");
+      root.title = "first";
+    });
+    store.optimistic((root) => {
+      root.items.push("second");
+    });
+
+    first.revert();
+
+    expect(store.snapshot()).toEqual({ title: "base", items: ["second"] });
+  });
+
+  it("should apply confirmed changes underneath pending updates", () => {
+    const store = createStore<State>({ title: "base", count: 0, items: [] });
+    const update = store.optimistic((root) => {
+      root.title = "pending";
+      root.items.push("pending");
+    });
+
+    store.applyChanges([
+      { type: "property", path: "title", value: "confirmed" },
+      { type: "property", path: "count", value: 1 },
+      { type: "array", path: "items", method: "unshift", args: ["confirmed"] },
+    ]);
+    expect(store.snapshot()).toEqual({ title: "pending", count: 1, items: ["confirmed", "pending"] });
+
+    update.revert();
+    expect(store.snapshot()).toEqual({ title: "confirmed", count: 1, items: ["confirmed"] });
+  });
+
+  it("should fold committed updates into the confirmed state", () => {
+    const store = createStore<{ items: string[] }>({ items: [] });
+    const first = store.optimistic((root) => {
+      root.items.push("first");
+    });
+    const second = store.optimistic((root) => {
+      root.items.push("second");
+    });
+
+    second.commit();
+    store.applyChanges([{ type: "array", path: "items", method: "unshift", args: ["confirmed"] }]);
+    first.revert();
+
+    expect(store.root.items).toEqual(["confirmed", "second"]);
+  });
+
+  it("should keep writes made while updates are pending", () => {
+    const store = createStore<State>({ title: "base", count: 0, items: [] });
+    const update = store.optimistic((root) => {
+      root.items.push("pending");
+    });
+
+    store.root.items.push("direct");
+    store.root.count = 5;
+    update.revert();
+
+    expect(store.snapshot()).toEqual({ title: "base", count: 5, items: ["direct"] });
+  });
+
+  it("should emit reverts as local batches and confirmed changes as remote ones", () => {
+    type Store = { title: string; count: number };
+    const store = createStore<Store>({ title: "base", count: 0 });
+    const update = store.optimistic((root) => {
+      root.title = "pending";
+    });
+    const batches = vi.fn();
+    store.subscribeToChanges(batches);
+
+    store.applyChanges([{ type: "property", path: "count", value: 1 }]);
+    update.revert();
+
+    expect(batches.mock.calls).toEqual([
+      [[{ type: "property", path: "count", value: 1 }], { source: "remote" }],
+      [[{ type: "property", path: "title", value: "base" }], { source: "local" }],
+    ]);
+  });
+
+  it("should restore codec values on revert", () => {
+    const store = createStore<{ due: Date }>({ due: new Date(0) }, { codecs: [dateCodec] });
+    const update = store.optimistic((root) => {
+      root.due = new Date(1000);
+    });
+
+    update.revert();
+
+    expect(store.root.due).toEqual(new Date(0));
+  });
+
+  it("should leave no update behind when the function throws", () => {
+    const store = createStore<{ title: string }>({ title: "base" });
+
+    expect(() =>
+      store.optimistic((root) => {
+        root.title = "pending";
+        throw new Error("fail");
+      }),
+    ).toThrow("fail");
+    store.applyChanges([{ type: "property", path: "title", value: "confirmed" }]);
+
+    expect(store.root.title).toBe("confirmed");
+  });
+
+  it("should reject settling an update twice", () => {
+    const store = createStore<{ count: number }>({ count: 0 });
+    const update = store.optimistic((root) => {
+      root.count = 1;
+    });
+    update.commit();
+
+    expect(() => update.revert()).toThrow("This optimistic update was already committed.");
+  });
+
+  it("should reject optimistic updates inside apply()", () => {
+    const store = createStore<{ count: number }>({ count: 0 });
+
+    expect(() => store.apply(() => store.optimistic(() => {}))).toThrow(
+      "optimistic() cannot be called inside apply().",
+    );
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from "vitest";
+import { createStore, encodePath, decodePath, toJsonPatch } from "../src/index";
+import type { Change } from "../src/index";
+
+describe("Path encoding", () => {
+  it("should leave ordinary paths unchanged", () => {
+    expect(encodePath(["user", "name"])).toBe("user.name");
+    expect(decodePath("user.name")).toEqual(["user", "name"]);
+  });
+
+  it("should escape dots and backslashes in keys", () => {
+    const segments = ["sites", "example.com", "a\\b", "v1.2\\"];
+    const path = encodePath(segments);
+
+    expect(path).toBe("sites.example\\.com.a\\\\b.v1\\.2\\\\");
+    expect(decodePath(path)).toEqual(segments);
+  });
+
+  it("should emit escaped paths for keys containing dots", () => {
+    type Store = { sites: Record<string, { visits: number }> };
+    const store = createStore<Store>({ sites: { "example.com": { visits: 1 } } });
+    const changes: Change[] = [];
+    store.subscribeToChanges((c) => changes.push(...c));
+
+    store.root.sites["example.com"]!.visits = 2;
+
+    expect(changes[0]!.path).toBe("sites.example\\.com.visits");
+  });
+
+  it("should replay keys containing dots into the right location", () => {
+    type Store = { versions: Record<string, string[]> };
+    const source = createStore<Store>({ versions: { "v1.2": [] } });
+    const target = createStore<Store>({ versions: { "v1.2": [] } });
+    source.subscribeToChanges((c) => target.applyChanges(c));
+
+    source.root.versions["v1.2"]!.push("fix");
+    source.root.versions["v1.3"] = ["init"];
+
+    expect(target.snapshot()).toEqual({ versions: { "v1.2": ["fix"], "v1.3": ["init"] } });
+  });
+
+  it("should not notify subscriptions on unrelated paths that share a dotted form", () => {
+    type Store = { example: { com: number }; "example.com": number };
+    const store = createStore<Store>({ example: { com: 1 }, "example.com": 1 });
+    const callback = vi.fn();
+
+    store.subscribe((root) => root["example.com"], callback);
+    callback.mockClear();
+
+    store.root.example.com = 2;
+    store.root.example = { com: 3 };
+
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it("should convert escaped paths to JSON Pointers", () => {
+    expect(toJsonPatch([{ type: "property", path: "sites.example\\.com", value: 1 }])).toEqual([
+      { op: "add", path: "/sites/example.com", value: 1 },
+    ]);
+  });
+});
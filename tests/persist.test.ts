@@ -0,0 +1,267 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, it, expect, vi } from "vitest";
+import {
+  createFileAdapter,
+  createHistory,
+  createKeyValueAdapter,
+  createMemoryAdapter,
+  createStore,
+  dateCodec,
+  deserialize,
+  persist,
+  serialize,
+  type StorageAdapter,
+} from "../src/index";
+
+function createAsyncAdapter(inner: StorageAdapter): StorageAdapter {
+  return {
+    getItem: async (key) => inner.getItem(key),
+    setItem: async (key, value) => inner.setItem(key, value),
+    removeItem: async (key) => inner.removeItem(key),
+  };
+}
+
+describe("persist", () => {
+  type State = { settings: { theme: string; tags: Set<string> }; session: { token: string } };
+
+  function createState(): State {
+    return { settings: { theme: "light", tags: new Set() }, session: { token: "" } };
+  }
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should hydrate synchronously from a synchronous adapter", () => {
+    const adapter = createMemoryAdapter({
+      app: serialize({ state: { settings: { theme: "dark", tags: new Set(["a"]) } } }),
+    });
+    const store = createStore<State>(createState());
+
+    persist(store, { adapter, key: "app" });
+
+    expect(store.root.settings.theme).toBe("dark");
+    expect([...store.root.settings.tags]).toEqual(["a"]);
+    expect(store.root.session.token).toBe("");
+  });
+
+  it("should hydrate from an asynchronous adapter", async () => {
+    const adapter = createAsyncAdapter(
+      createMemoryAdapter({ app: serialize({ state: { settings: { theme: "dark", tags: new Set() } } }) }),
+    );
+    const store = createStore<State>(createState());
+
+    const persistence = persist(store, { adapter, key: "app" });
+    expect(store.root.settings.theme).toBe("light");
+
+    await persistence.hydrated;
+    expect(store.root.settings.theme).toBe("dark");
+  });
+
+  it("should keep the initial state when nothing is stored", async () => {
+    const store = createStore<State>(createState());
+    const persistence = persist(store, { adapter: createMemoryAdapter(), key: "app" });
+
+    await persistence.hydrated;
+
+    expect(store.snapshot()).toEqual(createState());
+  });
+
+  it("should write only the selected paths", async () => {
+    const adapter = createMemoryAdapter();
+    const store = createStore<State>(createState());
+    const persistence = persist(store, { adapter, key: "app", paths: ["settings"] });
+
+    store.root.session.token = "secret";
+    expect(adapter.getItem("app")).toBeNull();
+
+    store.root.settings.tags.add("x");
+    await persistence.flush();
+
+    expect(deserialize(adapter.getItem("app") as string)).toEqual({
+      version: 1,
+      state: { settings: { theme: "light", tags: new Set(["x"]) } },
+    });
+  });
+
+  it("should only hydrate the selected paths", () => {
+    const adapter = createMemoryAdapter({
+      app: serialize({ state: { settings: { theme: "dark", tags: new Set() }, session: { token: "old" } } }),
+    });
+    const store = createStore<State>(createState());
+
+    persist(store, { adapter, key: "app", paths: ["settings.theme"] });
+
+    expect(store.root.settings.theme).toBe("dark");
+    expect(store.root.session.token).toBe("");
+  });
+
+  it("should debounce writes", async () => {
+    vi.useFakeTimers();
+    const adapter = createMemoryAdapter();
+    const setItem = vi.spyOn(adapter, "setItem");
+    const store = createStore<State>(createState());
+    persist(store, { adapter, key: "app", debounceMs: 100 });
+
+    store.root.settings.theme = "dark";
+    vi.advanceTimersByTime(50);
+    store.root.settings.theme = "blue";
+    vi.advanceTimersByTime(99);
+    expect(setItem).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    await Promise.resolve();
+    expect(setItem).toHaveBeenCalledTimes(1);
+    expect(deserialize<{ state: State }>(adapter.getItem("app") as string).state.settings.theme).toBe("blue");
+  });
+
+  it("should write pending changes on flush", async () => {
+    vi.useFakeTimers();
+    const adapter = createMemoryAdapter();
+    const store = createStore<State>(createState());
+    const persistence = persist(store, { adapter, key: "app", debounceMs: 1000 });
+
+    store.root.settings.theme = "dark";
+    await persistence.flush();
+
+    expect(adapter.getItem("app")).not.toBeNull();
+  });
+
+  it("should not write batches a change subscriber rejects", async () => {
+    const adapter = createMemoryAdapter();
+    const setItem = vi.spyOn(adapter, "setItem");
+    const store = createStore<State>(createState());
+    const persistence = persist(store, { adapter, key: "app" });
+    store.subscribeToChanges((changes) => {
+      if (changes.some((change) => change.type === "property" && change.value === "invalid"))
+        throw new Error("invalid theme");
+    });
+
+    expect(() => (store.root.settings.theme = "invalid")).toThrow("invalid theme");
+    await persistence.flush();
+    expect(setItem).not.toHaveBeenCalled();
+
+    store.root.settings.theme = "dark";
+    await persistence.flush();
+    expect(deserialize<{ state: State }>(adapter.getItem("app") as string).state.settings.theme).toBe("dark");
+  });
+
+  it("should save changes made before an asynchronous hydration finished", async () => {
+    const memory = createMemoryAdapter({ app: serialize({ state: { session: { token: "stored" } } }) });
+    const store = createStore<State>(createState());
+    const persistence = persist(store, { adapter: createAsyncAdapter(memory), key: "app" });
+
+    store.root.settings.theme = "dark";
+    await persistence.hydrated;
+    await persistence.flush();
+
+    const { state } = deserialize<{ state: State }>(memory.getItem("app") as string);
+    expect(state.settings.theme).toBe("dark");
+    expect(state.session.token).toBe("stored");
+  });
+
+  it("should not record hydration in the undo history", () => {
+    const adapter = createMemoryAdapter({ app: serialize({ state: { session: { token: "stored" } } }) });
+    const store = createStore<State>(createState());
+    const history = createHistory(store);
+
+    persist(store, { adapter, key: "app" });
+
+    expect(history.canUndo).toBe(false);
+  });
+
+  it("should reject hydrated and keep the stored state when it cannot be parsed", async () => {
+    const adapter = createMemoryAdapter({ app: "{" });
+    const store = createStore<State>(createState());
+    const persistence = persist(store, { adapter, key: "app" });
+
+    await expect(persistence.hydrated).rejects.toThrow(SyntaxError);
+    store.root.settings.theme = "dark";
+    await persistence.flush();
+    expect(adapter.getItem("app")).toBe("{");
+
+    await persistence.clear();
+    await persistence.flush();
+    expect(deserialize<{ state: State }>(adapter.getItem("app") as string).state.settings.theme).toBe("dark");
+  });
+
+  it("should encode values handled by codecs", async () => {
+    type Dated = { updatedAt: Date };
+    const adapter = createMemoryAdapter();
+    const source = createStore<Dated>({ updatedAt: new Date(0) }, { codecs: [dateCodec] });
+    const persistence = persist(source, { adapter, key: "app" });
+    source.root.updatedAt = new Date("2024-01-01T00:00:00.000Z");
+    await persistence.flush();
+
+    const target = createStore<Dated>({ updatedAt: new Date(0) }, { codecs: [dateCodec] });
+    persist(target, { adapter, key: "app" });
+
+    expect(target.root.updatedAt).toEqual(new Date("2024-01-01T00:00:00.000Z"));
+  });
+
+  it("should stop writing after dispose and remove the stored state on clear", async () => {
+    const adapter = createMemoryAdapter();
+    const store = createStore<State>(createState());
+    const persistence = persist(store, { adapter, key: "app" });
+
+    store.root.settings.theme = "dark";
+    await persistence.clear();
+    expect(adapter.getItem("app")).toBeNull();
+
+    persistence.dispose();
+    store.root.settings.theme = "blue";
+    await persistence.flush();
+    expect(adapter.getItem("app")).toBeNull();
+  });
+
+  it("should report failed background writes", async () => {
+    const onError = vi.fn();
+    const adapter: StorageAdapter = {
+      getItem: () => null,
+      setItem: () => {
+        throw new Error("quota exceeded");
+      },
+      removeItem: () => {},
+    };
+    const store = createStore<State>(createState());
+    persist(store, { adapter, key: "app", onError });
+
+    store.root.settings.theme = "dark";
+    await vi.waitFor(() => expect(onError).toHaveBeenCalledWith(new Error("quota exceeded")));
+  });
+});
+
+describe("storage adapters", () => {
+  it("should wrap a key-value storage", () => {
+    const storage = createMemoryAdapter();
+    const adapter = createKeyValueAdapter(storage);
+
+    adapter.setItem("a", "1");
+    expect(storage.getItem("a")).toBe("1");
+    adapter.removeItem("a");
+    expect(adapter.getItem("a")).toBeNull();
+  });
+
+  it("should throw when no key-value storage is available", () => {
+    expect(() => createKeyValueAdapter()).toThrow(/No key-value storage is available/);
+  });
+
+  it("should store items as files", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "pulsar-store-"));
+    try {
+      const adapter = createFileAdapter(join(directory, "nested"));
+
+      expect(await adapter.getItem("app/state")).toBeNull();
+      await adapter.setItem("app/state", '{"a":1}');
+      expect(await adapter.getItem("app/state")).toBe('{"a":1}');
+      expect(await readFile(join(directory, "nested", "app%2Fstate.json"), "utf8")).toBe('{"a":1}');
+
+      await adapter.removeItem("app/state");
+      expect(await adapter.getItem("app/state")).toBeNull();
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
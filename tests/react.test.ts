@@ -0,0 +1,224 @@
+// @vitest-environment jsdom
+/// <reference lib="dom" />
+import { describe, it, expect, beforeAll, afterEach } from "vitest";
+import { act, createElement, useCallback, useState, type ReactNode } from "react";
+import { createRoot, type Root } from "react-dom/client";
+import { createStore, shallowEqual, type Store } from "../src/index";
+import { StoreProvider, useStore, useStoreContext, useStoreRoot } from "../src/react";
+
+let container: HTMLElement;
+let root: Root;
+
+beforeAll(() => {
+  (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+});
+
+afterEach(() => {
+  act(() => root.unmount());
+  container.remove();
+});
+
+function render(node: ReactNode): void {
+  container = document.createElement("div");
+  document.body.appendChild(container);
+  root = createRoot(container);
+  act(() => root.render(node));
+}
+
+describe("useStore", () => {
+  type List = { items: { id: number; title: string }[] };
+
+  it("should render the selected value and re-render when it changes", () => {
+    const store = createStore<{ count: number }>({ count: 0 });
+    let renders = 0;
+    function Counter() {
+      renders++;
+      return createElement(
+        "span",
+        null,
+        useStore(store, (root) => root.count),
+      );
+    }
+    render(createElement(Counter));
+    expect(container.textContent).toBe("0");
+
+    act(() => {
+      store.root.count = 5;
+    });
+    expect(container.textContent).toBe("5");
+    expect(renders).toBe(2);
+  });
+
+  it("should accept read-only views", () => {
+    const store = createStore<List>({ items: [{ id: 1, title: "a" }] });
+    const view = store.readonly();
+    function Title() {
+      return createElement(
+        "span",
+        null,
+        useStore(view, (root) => root.items[0]!.title),
+      );
+    }
+    render(createElement(Title));
+
+    act(() => {
+      store.root.items[0]!.title = "b";
+    });
+    expect(container.textContent).toBe("b");
+  });
+
+  it("should not re-render for changes to paths the selector did not read", () => {
+    type Store = { count: number; other: number; items: { id: number; title: string }[] };
+    const store = createStore<Store>({ count: 0, other: 0, items: [{ id: 1, title: "a" }] });
+    let renders = 0;
+    function Counter() {
+      renders++;
+      return createElement(
+        "span",
+        null,
+        useStore(store, (root) => root.count),
+      );
+    }
+    render(createElement(Counter));
+
+    act(() => {
+      store.root.other = 1;
+      store.root.items[0]!.title = "b";
+    });
+    expect(renders).toBe(1);
+  });
+
+  it("should keep the previous result while equals considers it unchanged", () => {
+    const store = createStore<List>({ items: [{ id: 1, title: "a" }] });
+    const results: number[][] = [];
+    function Ids() {
+      const ids = useStore(store, (root) => root.items.map((item) => item.id), shallowEqual);
+      results.push(ids);
+      return createElement("span", null, ids.join(","));
+    }
+    render(createElement(Ids));
+
+    act(() => {
+      store.root.items[0]!.title = "b";
+    });
+    act(() => {
+      store.root.items.push({ id: 2, title: "c" });
+    });
+    expect(container.textContent).toBe("1,2");
+    expect(results.length).toBe(2);
+  });
+
+  it("should re-render when an object selected from the state changes in place", () => {
+    const store = createStore<List>({ items: [{ id: 1, title: "a" }] });
+    function Title() {
+      const item = useStore(store, (root) => root.items[0]!);
+      return createElement("span", null, item.title);
+    }
+    render(createElement(Title));
+
+    act(() => {
+      store.root.items[0]!.title = "b";
+    });
+    expect(container.textContent).toBe("b");
+  });
+
+  it("should accept selectors that build a new array with the default equals", () => {
+    const store = createStore<List>({ items: [{ id: 1, title: "a" }] });
+    let renders = 0;
+    function Titles() {
+      renders++;
+      const titles = useStore(store, (root) => root.items.filter((item) => item.id > 0).map((item) => item.title));
+      return createElement("span", null, titles.join(","));
+    }
+    render(createElement(Titles));
+    expect(renders).toBe(1);
+
+    act(() => {
+      store.root.items.push({ id: 2, title: "c" });
+    });
+    expect(container.textContent).toBe("a,c");
+    expect(renders).toBe(2);
+  });
+
+  it("should follow a selector whose closure changes", () => {
+    const store = createStore<{ values: Record<string, number> }>({ values: { a: 1, b: 2 } });
+    let setKey!: (key: string) => void;
+    function Value() {
+      const [key, set] = useState("a");
+      setKey = set;
+      const selector = useCallback((root: { values: Record<string, number> }) => root.values[key], [key]);
+      return createElement("span", null, useStore(store, selector));
+    }
+    render(createElement(Value));
+    expect(container.textContent).toBe("1");
+
+    act(() => setKey("b"));
+    expect(container.textContent).toBe("2");
+
+    // The new selector's path is tracked, the old one is not
+    act(() => {
+      store.root.values.b = 20;
+    });
+    expect(container.textContent).toBe("20");
+  });
+
+  it("should pick up changes made between render and subscription", () => {
+    const store = createStore<{ count: number }>({ count: 0 });
+    function Counter() {
+      const count = useStore(store, (root) => root.count);
+      if (count === 0) store.root.count = 1;
+      return createElement("span", null, count);
+    }
+    render(createElement(Counter));
+    expect(container.textContent).toBe("1");
+  });
+});
+
+describe("StoreProvider", () => {
+  type State = { count: number };
+
+  it("should provide the store to useStoreContext and useStoreRoot", () => {
+    const store = createStore<State>({ count: 0 });
+    let increment!: () => void;
+    function Counter() {
+      const provided = useStoreContext<State>();
+      const root = useStoreRoot<State>();
+      increment = () => root.count++;
+      return createElement(
+        "span",
+        null,
+        useStore(provided, (state) => state.count),
+      );
+    }
+    render(createElement(StoreProvider<State>, { store }, createElement(Counter)));
+
+    act(() => increment());
+    expect(store.root.count).toBe(1);
+    expect(container.textContent).toBe("1");
+  });
+
+  it("should throw when no store is provided", () => {
+    let error: unknown;
+    function Orphan() {
+      try {
+        useStoreRoot();
+      } catch (e) {
+        error = e;
+      }
+      return null;
+    }
+    render(createElement(Orphan));
+    expect((error as Error).message).toBe("useStoreRoot() must be used inside a StoreProvider or be given a store.");
+  });
+
+  it("should use a given store without a provider", () => {
+    const store: Store<State> = createStore<State>({ count: 0 });
+    let root!: State;
+    function Writer() {
+      root = useStoreRoot(store);
+      return null;
+    }
+    render(createElement(Writer));
+    expect(root).toBe(store.root);
+  });
+});
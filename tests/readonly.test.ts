@@ -0,0 +1,189 @@
+import { describe, it, expect, expectTypeOf, vi } from "vitest";
+import { createStore, dateCodec, type DeepReadonly, type ReadonlyStore } from "../src/index";
+
+describe("store.readonly", () => {
+  type User = { name: string; tags: string[] };
+  type State = { user: User; teams: Map<string, { name: string }>; flags: Set<string> };
+
+  it("should read the live state", () => {
+    type Store = State & { at: Date };
+    const store = createStore<Store>(
+      {
+        user: { name: "Ann", tags: ["a"] },
+        teams: new Map([["core", { name: "Core" }]]),
+        flags: new Set(["beta"]),
+        at: new Date(0),
+      },
+      { codecs: [dateCodec] },
+    );
+    const view = store.readonly();
+
+    store.root.user.name = "Bob";
+    expect(view.root.user.name).toBe("Bob");
+    expect(view.root.user.tags.map((tag) => tag.toUpperCase())).toEqual(["A"]);
+    expect(view.root.teams.get("core")!.name).toBe("Core");
+    expect(view.root.flags.has("beta")).toBe(true);
+    expect(view.root.at).toEqual(new Date(0));
+    expect(view.snapshot()).toEqual(store.snapshot());
+    expect(store.readonly()).toBe(view);
+  });
+
+  it("should throw on writes and deletes, naming the path", () => {
+    type Store = { user: User; flags: Set<string> };
+    const store = createStore<Store>({ user: { name: "Ann", tags: ["a"] }, flags: new Set(["beta"]) });
+    const root = store.readonly().root as Store;
+
+    expect(() => (root.user.name = "Bob")).toThrow('Cannot set "user.name": this is a read-only view of the store.');
+    expect(() => delete (root as Partial<Store>).flags).toThrow(
+      'Cannot delete "flags": this is a read-only view of the store.',
+    );
+    expect(() => (root.user.tags[0] = "b")).toThrow('Cannot set "user.tags.0"');
+    expect(store.root.user).toEqual({ name: "Ann", tags: ["a"] });
+  });
+
+  it("should throw on array, Map and Set mutators", () => {
+    const store = createStore<State>({
+      user: { name: "Ann", tags: ["a"] },
+      teams: new Map([["core", { name: "Core" }]]),
+      flags: new Set(["beta"]),
+    });
+    const root = store.readonly().root as State;
+
+    expect(() => root.user.tags.push("b")).toThrow('Cannot call push() on "user.tags"');
+    expect(() => root.user.tags.sort()).toThrow('Cannot call sort() on "user.tags"');
+    expect(() => root.teams.set("web", { name: "Web" })).toThrow('Cannot call set() on "teams"');
+    expect(() => root.teams.clear()).toThrow('Cannot call clear() on "teams"');
+    expect(() => root.flags.add("alpha")).toThrow('Cannot call add() on "flags"');
+    expect(() => (root.teams.get("core")!.name = "x")).toThrow('Cannot set "teams.core.name"');
+    expect(store.snapshot()).toEqual({
+      user: { name: "Ann", tags: ["a"] },
+      teams: new Map([["core", { name: "Core" }]]),
+      flags: new Set(["beta"]),
+    });
+  });
+
+  it("should hand out read-only values from Map iteration and array callbacks", () => {
+    type Store = { user: User; teams: Map<string, { name: string }> };
+    const store = createStore<Store>({
+      user: { name: "Ann", tags: ["a"] },
+      teams: new Map([["core", { name: "Core" }]]),
+    });
+    const root = store.readonly().root as State;
+
+    const [entry] = [...root.teams];
+    expect(() => (entry![1].name = "x")).toThrow('Cannot set "teams.core.name"');
+    root.teams.forEach((value) => expect(() => (value.name = "x")).toThrow());
+
+    store.root.user.tags = [{ label: "a" }] as unknown as string[];
+    (root.user.tags as unknown as { label: string }[]).forEach((tag) => {
+      expect(() => (tag.label = "b")).toThrow('Cannot set "user.tags.0.label"');
+    });
+  });
+
+  it("should subscribe, compute and run effects", () => {
+    const store = createStore<{ user: User }>({ user: { name: "Ann", tags: ["a"] } });
+    const view = store.readonly();
+    const names: string[] = [];
+    view.subscribe(
+      (root) => root.user.name,
+      (name) => names.push(name),
+    );
+    const count = view.computed((root) => root.user.tags.length);
+    const effect = vi.fn();
+    view.effect((root) => effect(root.user.name));
+    const changes = vi.fn();
+    view.subscribeToChanges(changes);
+
+    store.apply((root) => {
+      root.user.name = "Bob";
+      root.user.tags.push("b");
+    });
+
+    expect(names).toEqual(["Ann", "Bob"]);
+    expect(count.value).toBe(2);
+    expect(effect).toHaveBeenLastCalledWith("Bob");
+    expect(changes).toHaveBeenCalledTimes(1);
+  });
+
+  it("should pass read-only roots to selectors, computed values and effects", () => {
+    const store = createStore<State>({
+      user: { name: "Ann", tags: ["a"] },
+      teams: new Map([["core", { name: "Core" }]]),
+      flags: new Set(["beta"]),
+    });
+    const view = store.readonly();
+    const errors: string[] = [];
+    const attempt = (write: () => void) => {
+      try {
+        write();
+      } catch (e) {
+        errors.push((e as Error).message);
+      }
+    };
+
+    const names: string[] = [];
+    view.subscribe(
+      (root) => {
+        attempt(() => ((root as State).user.name = "Bob"));
+        return root.user.name;
+      },
+      (name) => names.push(name),
+    );
+    const tags = view.computed((root) => {
+      attempt(() => (root as State).user.tags.push("x"));
+      return root.user.tags.length;
+    });
+    expect(tags.value).toBe(1);
+    view.effect((root) => {
+      attempt(() => (root as State).teams.clear());
+      attempt(() => delete (root as Partial<State>).flags);
+    });
+
+    expect(errors).toEqual([
+      'Cannot set "user.name": this is a read-only view of the store.',
+      'Cannot call push() on "user.tags": this is a read-only view of the store.',
+      'Cannot call clear() on "teams": this is a read-only view of the store.',
+      'Cannot delete "flags": this is a read-only view of the store.',
+    ]);
+    expect(store.snapshot()).toEqual({
+      user: { name: "Ann", tags: ["a"] },
+      teams: new Map([["core", { name: "Core" }]]),
+      flags: new Set(["beta"]),
+    });
+
+    // Reads through the read-only root are still tracked
+    store.root.user.name = "Cid";
+    store.root.user.tags.push("b");
+    expect(names).toEqual(["Ann", "Cid"]);
+    expect(tags.value).toBe(2);
+  });
+
+  it("should make scopes read-only with paths relative to the scope", () => {
+    const store = createStore<{ user: User }>({ user: { name: "Ann", tags: ["a"] } });
+    const user = store.scope((root) => root.user).readonly();
+    expect(user.root.name).toBe("Ann");
+    expect(() => ((user.root as User).name = "Bob")).toThrow('Cannot set "name"');
+  });
+
+  it("should not expose write methods or writable types", () => {
+    const store = createStore<State>({
+      user: { name: "Ann", tags: ["a"] },
+      teams: new Map([["core", { name: "Core" }]]),
+      flags: new Set(["beta"]),
+    });
+    const view = store.readonly();
+
+    expectTypeOf(view).toEqualTypeOf<ReadonlyStore<State>>();
+    expectTypeOf(view.root).toEqualTypeOf<DeepReadonly<State>>();
+    expectTypeOf(view.root.user.tags).toEqualTypeOf<readonly string[]>();
+    expectTypeOf(view.root.teams).toEqualTypeOf<ReadonlyMap<string, { readonly name: string }>>();
+    expectTypeOf(view.root.flags).toEqualTypeOf<ReadonlySet<string>>();
+    expect("apply" in view).toBe(false);
+    expect("applyChanges" in view).toBe(false);
+
+    // @ts-expect-error: read-only
+    expect(() => (view.root.user.name = "Bob")).toThrow();
+    // @ts-expect-error: read-only arrays have no push
+    expect(() => view.root.user.tags.push("b")).toThrow();
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect } from "vitest";
+import { createStore, normalizeChanges, rebaseChanges, transformChanges, type Change } from "../src/index";
+
+function applyAll(state: object, changes: Change[]): object {
+  const store = createStore<any>(structuredClone(state));
+  store.applyChanges(changes);
+  return store.snapshot();
+}
+
+/** Applies both orders and checks they meet in the same state, which is returned. */
+function merge(base: object, remote: Change[], local: Change[], winner?: "local" | "remote"): object {
+  const [remoteAfter, localAfter] = transformChanges(remote, local, { base, winner });
+  const localFirst = applyAll(applyAll(base, normalizeChanges(local, base)), remoteAfter);
+  const remoteFirst = applyAll(applyAll(base, normalizeChanges(remote, base)), localAfter);
+  expect(localFirst).toEqual(remoteFirst);
+  return localFirst;
+}
+
+const push = (path: string, ...args: unknown[]): Change => ({ type: "array", path, method: "push", args });
+const splice = (path: string, ...args: unknown[]): Change => ({ type: "array", path, method: "splice", args });
+
+describe("normalizeChanges", () => {
+  it("should turn array methods into splices at absolute indexes", () => {
+    const base = { items: ["a", "b", "c"] };
+    const changes: Change[] = [
+      push("items", "d"),
+      { type: "array", path: "items", method: "pop", args: [] },
+      { type: "array", path: "items", method: "shift", args: [] },
+      { type: "array", path: "items", method: "unshift", args: ["z"] },
+      splice("items", -1, 1),
+    ];
+
+    expect(normalizeChanges(changes, base)).toEqual([
+      splice("items", 3, 0, "d"),
+      splice("items", 3, 1),
+      splice("items", 0, 1),
+      splice("items", 0, 0, "z"),
+      splice("items", 2, 1),
+    ]);
+    expect(base).toEqual({ items: ["a", "b", "c"] });
+  });
+
+  it("should turn reorderings and length writes into writes that do not depend on the state", () => {
+    const base = { items: [3, 1, 2] };
+
+    expect(
+      normalizeChanges(
+        [
+          { type: "array", path: "items", method: "sort", args: [] },
+          { type: "property", path: "items.length", value: 1 },
+          { type: "property", path: "items.1", value: 9 },
+        ],
+        base,
+      ),
+    ).toEqual([{ type: "property", path: "items", value: [1, 2, 3] }, splice("items", 1, 2), splice("items", 1, 0, 9)]);
+  });
+});
+
+describe("rebaseChanges", () => {
+  it("should shift splice indexes past concurrent insertions", () => {
+    const base = { items: ["a", "b", "c"] };
+    const remote = [splice("items", 2, 1)]; // remove "c"
+    const local = [splice("items", 0, 0, "x", "y")];
+
+    expect(rebaseChanges(remote, local, { base })).toEqual([splice("items", 4, 1)]);
+    expect(merge(base, remote, local)).toEqual({ items: ["x", "y", "a", "b"] });
+  });
+
+  it("should keep both sides' appends, the winner's last", () => {
+    const base = { items: ["a"] };
+
+    expect(merge(base, [push("items", "remote")], [push("items", "local")])).toEqual({
+      items: ["a", "remote", "local"],
+    });
+    expect(merge(base, [push("items", "remote")], [push("items", "local")], "remote")).toEqual({
+      items: ["a", "local", "remote"],
+    });
+  });
+
+  it("should apply shift and unshift offsets", () => {
+    const base = { items: ["a", "b", "c"] };
+    const remote: Change[] = [{ type: "array", path: "items", method: "shift", args: [] }];
+    const local: Change[] = [{ type: "array", path: "items", method: "unshift", args: ["x"] }];
+
+    expect(rebaseChanges(remote, local, { base })).toEqual([splice("items", 1, 1)]);
+    expect(merge(base, remote, local)).toEqual({ items: ["x", "b", "c"] });
+  });
+
+  it("should not remove elements twice when removals overlap", () => {
+    const base = { items: ["a", "b", "c", "d", "e"] };
+
+    expect(merge(base, [splice("items", 1, 2)], [splice("items", 2, 2, "x")])).toEqual({ items: ["a", "x", "e"] });
+  });
+
+  it("should rewrite paths under array indexes", () => {
+    const base = { todos: [{ title: "a" }, { title: "b" }] };
+    const remote: Change[] = [{ type: "property", path: "todos.1.title", value: "B" }];
+    const local = [splice("todos", 0, 0, { title: "new" })];
+
+    expect(rebaseChanges(remote, local, { base })).toEqual([{ type: "property", path: "todos.2.title", value: "B" }]);
+    expect(merge(base, remote, local)).toEqual({ todos: [{ title: "new" }, { title: "a" }, { title: "B" }] });
+  });
+
+  it("should drop edits to elements the other side removed", () => {
+    const base = { todos: [{ title: "a" }, { title: "b" }] };
+    const remote: Change[] = [{ type: "property", path: "todos.0.title", value: "A" }];
+    const local = [splice("todos", 0, 1)];
+
+    expect(rebaseChanges(remote, local, { base })).toEqual([]);
+    expect(merge(base, remote, local)).toEqual({ todos: [{ title: "b" }] });
+  });
+
+  it("should drop edits inside values the other side replaced", () => {
+    const base = { user: { name: "a", tags: ["x"] } };
+    const remote = [push("user.tags", "y")];
+    const local: Change[] = [{ type: "property", path: "user", value: { name: "b", tags: [] } }];
+
+    expect(merge(base, remote, local, "remote")).toEqual({ user: { name: "b", tags: [] } });
+  });
+
+  it("should resolve concurrent writes to the same path in favor of the winner", () => {
+    const base = { title: "base" };
+    const remote: Change[] = [{ type: "property", path: "title", value: "remote" }];
+    const local: Change[] = [{ type: "property", path: "title", value: "local" }];
+
+    expect(merge(base, remote, local)).toEqual({ title: "local" });
+    expect(merge(base, remote, local, "remote")).toEqual({ title: "remote" });
+  });
+
+  it("should rebase across several changes on each side", () => {
+    const base = { items: ["a", "b", "c"], count: 0 };
+    const remote: Change[] = [
+      push("items", "r1"),
+      splice("items", 0, 1),
+      { type: "property", path: "count", value: 1 },
+    ];
+    const local: Change[] = [
+      { type: "array", path: "items", method: "unshift", args: ["l1"] },
+      { type: "property", path: "items.2", value: "B" },
+      { type: "array", path: "items", method: "reverse", args: [] },
+    ];
+
+    // The local reverse writes the whole array, so it supersedes the remote edits to it
+    expect(merge(base, remote, local)).toEqual({ items: ["c", "B", "a", "l1"], count: 1 });
+  });
+});
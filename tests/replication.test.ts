@@ -0,0 +1,249 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import {
+  createLoopback,
+  createReplicationClient,
+  createReplicationServer,
+  createStore,
+  type LoopbackOptions,
+  type ReplicationClientOptions,
+  type Change,
+  type ReplicationServer,
+} from "../src/index";
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("replication", () => {
+  type State = { count: number; items: string[] };
+  const disposers: (() => void)[] = [];
+
+  afterEach(() => {
+    disposers.splice(0).forEach((dispose) => dispose());
+  });
+
+  function serve(initial: State = { count: 0, items: [] }, historyLimit?: number) {
+    const store = createStore<State>(initial);
+    const server = createReplicationServer(store, { resendIntervalMs: 10, historyLimit });
+    disposers.push(() => server.dispose());
+    return { store, server };
+  }
+
+  function join(server: ReplicationServer, loopback?: LoopbackOptions, options?: ReplicationClientOptions) {
+    const store = createStore<State>({ count: 0, items: [] });
+    const { client: clientEnd, server: serverEnd } = createLoopback(loopback);
+    const disconnect = server.connect(serverEnd);
+    const client = createReplicationClient(store, clientEnd, { resendIntervalMs: 10, ...options });
+    disposers.push(() => client.dispose(), disconnect);
+    return { store, client };
+  }
+
+  it("should send the server state to a connecting client", async () => {
+    const { server } = serve({ count: 3, items: ["a"] });
+    const { store, client } = join(server);
+
+    await client.ready;
+
+    expect(store.snapshot()).toEqual({ count: 3, items: ["a"] });
+  });
+
+  it("should number server batches and replay them on clients", async () => {
+    const { store: serverStore, server } = serve();
+    const { store, client } = join(server);
+    await client.ready;
+
+    serverStore.root.count = 1;
+    serverStore.root.items.push("x");
+    await settle();
+
+    expect(server.seq).toBe(2);
+    expect(client.seq).toBe(2);
+    expect(store.snapshot()).toEqual({ count: 1, items: ["x"] });
+  });
+
+  it("should route client changes through the server to other clients", async () => {
+    const { store: serverStore, server } = serve();
+    const a = join(server);
+    const b = join(server);
+    await Promise.all([a.client.ready, b.client.ready]);
+    const applied = vi.fn();
+    a.store.subscribeToChanges(applied);
+
+    a.store.root.items.push("from a");
+    await settle();
+
+    expect(serverStore.root.items).toEqual(["from a"]);
+    expect(b.store.root.items).toEqual(["from a"]);
+    // The echo of its own batch is not applied again
+    expect(a.store.root.items).toEqual(["from a"]);
+    expect(applied).toHaveBeenCalledTimes(1);
+    expect(a.client.pending).toBe(0);
+  });
+
+  it("should ask for missed batches when it detects a gap", async () => {
+    let dropped = false;
+    const { store: serverStore, server } = serve();
+    const { store, client } = join(server, {
+      filter: (message) => {
+        if (message.type !== "batch" || dropped) return true;
+        dropped = true;
+        return false;
+      },
+    });
+    await client.ready;
+
+    serverStore.root.count = 1;
+    serverStore.root.items.push("after the gap");
+    await vi.waitFor(() => expect(client.seq).toBe(2));
+
+    expect(store.snapshot()).toEqual({ count: 1, items: ["after the gap"] });
+  });
+
+  it("should resend batches the client has not acknowledged", async () => {
+    let dropped = false;
+    const { store: serverStore, server } = serve();
+    const { store, client } = join(server, {
+      filter: (message) => {
+        if (message.type !== "batch" || dropped) return true;
+        dropped = true;
+        return false;
+      },
+    });
+    await client.ready;
+
+    serverStore.root.count = 7;
+    await vi.waitFor(() => expect(store.root.count).toBe(7));
+  });
+
+  it("should resend lost submissions without applying them twice", async () => {
+    const { store: serverStore, server } = serve();
+    let dropSubmit = true;
+    let dropAccepted = true;
+    const { store, client } = join(server, {
+      filter: (message) => {
+        if (message.type === "submit" && dropSubmit) return (dropSubmit = false);
+        if (message.type === "accepted" && dropAccepted) return (dropAccepted = false);
+        return true;
+      },
+    });
+    await client.ready;
+    const serverBatches = vi.fn();
+    serverStore.subscribeToChanges(serverBatches);
+
+    store.root.items.push("once");
+    await vi.waitFor(() => expect(client.pending).toBe(0));
+
+    expect(serverStore.root.items).toEqual(["once"]);
+    expect(serverBatches).toHaveBeenCalledTimes(1);
+  });
+
+  it("should fall back to a snapshot when missed batches are no longer kept", async () => {
+    let online = true;
+    const { store: serverStore, server } = serve({ count: 0, items: [] }, 1);
+    const { store, client } = join(server, { filter: (message) => online || message.type !== "batch" });
+    await client.ready;
+
+    online = false;
+    serverStore.root.count = 1;
+    serverStore.root.items.push("a");
+    serverStore.root.items.push("b");
+    await settle();
+    online = true;
+
+    await vi.waitFor(() => expect(store.snapshot()).toEqual({ count: 1, items: ["a", "b"] }));
+    expect(client.seq).toBe(3);
+  });
+
+  it("should report rejected changes and resync to the server state", async () => {
+    const { store: serverStore, server } = serve({ count: 5, items: [] });
+    serverStore.subscribeToChanges((changes) => {
+      if (
+        changes.some((change) => change.path === "count" && change.type === "property" && (change.value as number) < 0)
+      ) {
+        throw new Error("count must not be negative");
+      }
+    });
+    const onReject = vi.fn();
+    const { store, client } = join(server, undefined, { onReject });
+    await client.ready;
+
+    store.root.count = -1;
+    await vi.waitFor(() => expect(store.root.count).toBe(5));
+
+    expect(onReject).toHaveBeenCalledWith("count must not be negative", [
+      { type: "property", path: "count", value: -1 },
+    ]);
+    expect(serverStore.root.count).toBe(5);
+  });
+
+  it("should neither publish nor submit batches a change subscriber rejects", async () => {
+    const reject = (changes: Change[]) => {
+      if (changes.some((change) => change.type === "property" && (change.value as number) < 0)) {
+        throw new Error("count must not be negative");
+      }
+    };
+    const { store: serverStore, server } = serve();
+    serverStore.subscribeToChanges(reject);
+    const { store, client } = join(server);
+    store.subscribeToChanges(reject);
+    await client.ready;
+
+    expect(() => (serverStore.root.count = -1)).toThrow("count must not be negative");
+    expect(() => (store.root.count = -2)).toThrow("count must not be negative");
+    store.root.count = 3;
+    await vi.waitFor(() => expect(client.pending).toBe(0));
+
+    expect(server.seq).toBe(1);
+    expect(serverStore.root.count).toBe(3);
+    expect(store.root.count).toBe(3);
+  });
+
+  it("should converge when clients edit concurrently", async () => {
+    const { store: serverStore, server } = serve();
+    const a = join(server);
+    const b = join(server);
+    await Promise.all([a.client.ready, b.client.ready]);
+
+    a.store.root.count = 1;
+    b.store.root.count = 2;
+    a.store.root.items.push("a");
+    b.store.root.items.push("b");
+
+    await vi.waitFor(() => {
+      expect(a.store.snapshot()).toEqual(serverStore.snapshot());
+      expect(b.store.snapshot()).toEqual(serverStore.snapshot());
+    });
+    expect(serverStore.snapshot()).toEqual({ count: 2, items: ["a", "b"] });
+  });
+
+  it("should merge concurrent array edits without corrupting indexes", async () => {
+    const { store: serverStore, server } = serve({ count: 0, items: ["a", "b", "c"] });
+    const a = join(server);
+    const b = join(server);
+    await Promise.all([a.client.ready, b.client.ready]);
+
+    a.store.root.items.splice(1, 1);
+    a.store.root.items.push("from a");
+    b.store.root.items.unshift("from b");
+    b.store.root.items[3] = "C";
+
+    await vi.waitFor(() => {
+      expect(a.client.pending + b.client.pending).toBe(0);
+      expect(a.store.snapshot()).toEqual(serverStore.snapshot());
+      expect(b.store.snapshot()).toEqual(serverStore.snapshot());
+    });
+    expect(serverStore.root.items).toEqual(["from b", "a", "C", "from a"]);
+  });
+
+  it("should stop replicating once disposed", async () => {
+    const { store: serverStore, server } = serve();
+    const { store, client } = join(server);
+    await client.ready;
+
+    client.dispose();
+    serverStore.root.count = 1;
+    store.root.items.push("local");
+    await settle();
+
+    expect(store.root.count).toBe(0);
+    expect(serverStore.root.items).toEqual([]);
+  });
+});
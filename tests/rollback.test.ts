@@ -62,6 +62,24 @@ describe("Rollback on error", () => {
     expect(store.root.items).toEqual(["a", "b", "c"]);
   });
 
+  it("should rollback writes that change an array's length", () => {
+    type Store = { items: string[] };
+    const store = createStore<Store>({ items: ["a", "b", "c"] });
+
+    store.subscribeToChanges(() => {
+      throw new Error("Subscriber error");
+    });
+
+    expect(() => {
+      store.root.items.length = 1;
+    }).toThrow("Subscriber error");
+    expect(() => {
+      store.root.items[4] = "e";
+    }).toThrow("Subscriber error");
+
+    expect(store.root.items).toEqual(["a", "b", "c"]);
+  });
+
   it("should still notify regular subscribers if no error", () => {
     type Store = { x: number };
     const store = createStore<Store>({ x: 1 });
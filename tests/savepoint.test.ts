@@ -0,0 +1,132 @@
+import { describe, it, expect, vi } from "vitest";
+import { createStore } from "../src/index";
+import type { Change, Savepoint } from "../src/index";
+
+describe("Nested transactions", () => {
+  type Store = { a: number; b: number; items: string[] };
+
+  it("should join nested apply() calls into the outer batch", () => {
+    const store = createStore<Store>({ a: 1, b: 2, items: [] });
+    const batches: Change[][] = [];
+    const callback = vi.fn();
+
+    store.subscribeToChanges((c) => batches.push(c));
+    store.subscribe((root) => root.a + root.b, callback);
+    callback.mockClear();
+
+    store.apply((root) => {
+      root.a = 10;
+      store.apply((inner) => {
+        inner.b = 20;
+      });
+      expect(callback).not.toHaveBeenCalled();
+      root.items.push("x");
+    });
+
+    expect(batches).toHaveLength(1);
+    expect(batches[0]!.map((c) => c.path)).toEqual(["a", "b", "items"]);
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledWith(30);
+  });
+
+  it("should only undo the inner transaction when it throws and the outer catches", () => {
+    const store = createStore<Store>({ a: 1, b: 2, items: [] });
+    const batches: Change[][] = [];
+    store.subscribeToChanges((c) => batches.push(c));
+
+    store.apply((root) => {
+      root.a = 10;
+      try {
+        store.apply((inner) => {
+          inner.b = 20;
+          inner.items.push("x");
+          throw new Error("inner");
+        });
+      } catch {
+        // ignored
+      }
+    });
+
+    expect(store.snapshot()).toEqual({ a: 10, b: 2, items: [] });
+    expect(batches).toEqual([[{ type: "property", path: "a", value: 10 }]]);
+  });
+
+  it("should undo the whole batch when a nested failure propagates", () => {
+    const store = createStore<Store>({ a: 1, b: 2, items: [] });
+
+    expect(() =>
+      store.apply((root) => {
+        root.a = 10;
+        store.apply((inner) => {
+          inner.b = 20;
+          throw new Error("inner");
+        });
+      }),
+    ).toThrow("inner");
+
+    expect(store.snapshot()).toEqual({ a: 1, b: 2, items: [] });
+  });
+});
+
+describe("savepoint", () => {
+  type Store = { a: number; b: number; items: string[] };
+
+  it("should roll back to the savepoint without aborting the transaction", () => {
+    const store = createStore<Store>({ a: 1, b: 2, items: ["x"] });
+    const batches: Change[][] = [];
+    store.subscribeToChanges((c) => batches.push(c));
+
+    store.apply((root) => {
+      root.a = 10;
+      const savepoint = store.savepoint();
+      root.b = 20;
+      root.items.pop();
+      savepoint.rollbackTo();
+      root.items.push("y");
+    });
+
+    expect(store.snapshot()).toEqual({ a: 10, b: 2, items: ["x", "y"] });
+    expect(batches).toHaveLength(1);
+    expect(batches[0]!.map((c) => c.path)).toEqual(["a", "items"]);
+  });
+
+  it("should allow rolling back to the same savepoint repeatedly", () => {
+    const store = createStore<Store>({ a: 1, b: 2, items: [] });
+
+    store.apply((root) => {
+      const savepoint = store.savepoint();
+      root.a = 10;
+      savepoint.rollbackTo();
+      root.a = 20;
+      savepoint.rollbackTo();
+    });
+
+    expect(store.root.a).toBe(1);
+  });
+
+  it("should invalidate later savepoints when rolling back to an earlier one", () => {
+    const store = createStore<Store>({ a: 1, b: 2, items: [] });
+
+    store.apply((root) => {
+      const first = store.savepoint();
+      root.a = 10;
+      const second = store.savepoint();
+      root.b = 20;
+      first.rollbackTo();
+      expect(() => second.rollbackTo()).toThrow(/no longer active/);
+    });
+  });
+
+  it("should throw outside a transaction or after it ended", () => {
+    const store = createStore<Store>({ a: 1, b: 2, items: [] });
+    let savepoint: Savepoint | undefined;
+
+    expect(() => store.savepoint()).toThrow(/inside apply/);
+
+    store.apply(() => {
+      savepoint = store.savepoint();
+    });
+
+    expect(() => savepoint!.rollbackTo()).toThrow(/no longer active/);
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { createStore, dateCodec, s, StoreValidationError, type Infer } from "../src/index";
+
+function catchError(fn: () => void): StoreValidationError {
+  try {
+    fn();
+  } catch (e) {
+    expect(e).toBeInstanceOf(StoreValidationError);
+    return e as StoreValidationError;
+  }
+  throw new Error("Expected a StoreValidationError.");
+}
+
+describe("schema", () => {
+  const userSchema = s.object({
+    user: s.object({ name: s.string(), age: s.number(), nickname: s.optional(s.string()) }),
+  });
+  type UserState = Infer<typeof userSchema>;
+
+  it("should infer the state type", () => {
+    const schema = s.object({
+      user: s.object({ age: s.number(), nickname: s.optional(s.string()) }),
+      tags: s.array(s.string()),
+      parent: s.nullable(s.object({ id: s.number() })),
+    });
+    type State = Infer<typeof schema>;
+    expectTypeOf<State["user"]["age"]>().toEqualTypeOf<number>();
+    expectTypeOf<State["user"]["nickname"]>().toEqualTypeOf<string | undefined>();
+    expectTypeOf<State["parent"]>().toEqualTypeOf<{ id: number } | null>();
+    expectTypeOf<State["tags"]>().toEqualTypeOf<string[]>();
+  });
+
+  it("should validate the initial state", () => {
+    const state = { user: { name: "Ann", age: "thirty" } } as unknown as UserState;
+    const error = catchError(() => createStore<UserState>(state, { schema: userSchema }));
+    expect(error.path).toBe("user.age");
+    expect(error.expected).toBe("number");
+    expect(error.received).toBe("thirty");
+    expect(error.message).toBe('Invalid value at path "user.age": expected number, received "thirty".');
+  });
+
+  it("should reject proxy writes that do not match and leave the state unchanged", () => {
+    const store = createStore<UserState>(
+      { user: { name: "Ann", age: 30, nickname: undefined } },
+      { schema: userSchema },
+    );
+    const error = catchError(() => ((store.root.user as { age: unknown }).age = "thirty"));
+    expect(error.path).toBe("user.age");
+    expect(store.root.user.age).toBe(30);
+
+    store.root.user.age = 31;
+    store.root.user.nickname = "A";
+    delete store.root.user.nickname;
+    expect(store.root.user).toEqual({ name: "Ann", age: 31 });
+  });
+
+  it("should report the path of the mismatch inside a written object", () => {
+    const schema = s.object({ parent: s.nullable(s.object({ id: s.number() })) });
+    const store = createStore<Infer<typeof schema>>({ parent: null }, { schema });
+    const error = catchError(() => (store.root.parent = { id: "1" } as unknown as { id: number }));
+    expect(error.path).toBe("parent.id");
+    expect(error.expected).toBe("number");
+    store.root.parent = { id: 1 };
+    expect(store.root.parent).toEqual({ id: 1 });
+  });
+
+  it("should reject deleting required keys and writing unknown ones", () => {
+    const store = createStore<UserState>(
+      { user: { name: "Ann", age: 30, nickname: undefined } },
+      { schema: userSchema },
+    );
+    expect(catchError(() => delete (store.root.user as { name?: string }).name).expected).toBe("string");
+
+    const error = catchError(() => ((store.root.user as Record<string, unknown>).email = "ann@example.com"));
+    expect(error.path).toBe("user.email");
+    expect(error.expected).toBe("undefined");
+  });
+
+  it("should validate array items at the index they are inserted at", () => {
+    const schema = s.object({ tags: s.array(s.string()) });
+    const store = createStore<Infer<typeof schema>>({ tags: ["a"] }, { schema });
+    expect(catchError(() => (store.root.tags as unknown[]).push("b", 2)).path).toBe("tags.2");
+    expect(catchError(() => (store.root.tags as unknown[]).splice(0, 0, null)).path).toBe("tags.0");
+    expect(catchError(() => (store.root.tags as unknown[]).fill(0)).path).toBe("tags.0");
+    expect(store.root.tags).toEqual(["a"]);
+
+    store.root.tags.unshift("z");
+    store.root.tags.length = 1;
+    expect(store.root.tags).toEqual(["z"]);
+  });
+
+  it("should validate the holes an array grows by", () => {
+    const schema = s.object({ tags: s.array(s.string()) });
+    const store = createStore<Infer<typeof schema>>({ tags: ["a"] }, { schema });
+    expect(catchError(() => (store.root.tags.length = 3)).path).toBe("tags.1");
+    expect(catchError(() => (store.root.tags[3] = "x")).path).toBe("tags.1");
+    expect(catchError(() => (store.root.tags = new Array<string>(2))).path).toBe("tags.0");
+    expect(store.root.tags).toEqual(["a"]);
+
+    const optionalSchema = s.object({ list: s.array(s.optional(s.number())) });
+    const sparse = createStore<Infer<typeof optionalSchema>>({ list: [] }, { schema: optionalSchema });
+    sparse.root.list.length = 2;
+    sparse.root.list[3] = 1;
+    expect(sparse.root.list).toEqual([undefined, undefined, undefined, 1]);
+  });
+
+  it("should validate Map values, Set members and record values", () => {
+    const schema = s.object({
+      scores: s.record(s.number()),
+      members: s.map(s.object({ role: s.union(s.literal("admin"), s.literal("viewer")) })),
+      flags: s.set(s.string()),
+    });
+    const store = createStore<Infer<typeof schema>>(
+      { scores: { math: 1 }, members: new Map([["ann", { role: "admin" as const }]]), flags: new Set(["beta"]) },
+      { schema },
+    );
+    const mapError = catchError(() => store.root.members.set("bob", { role: "owner" as "admin" }));
+    expect(mapError.path).toBe("members.bob.role");
+    expect(mapError.expected).toBe('"admin" | "viewer"');
+    expect(catchError(() => (store.root.flags as Set<unknown>).add(1)).path).toBe("flags.@1");
+    expect(catchError(() => ((store.root.scores as Record<string, unknown>).art = "A")).path).toBe("scores.art");
+    expect(store.root.members.has("bob")).toBe(false);
+  });
+
+  it("should validate replayed changes and roll back the whole batch", () => {
+    const store = createStore<UserState>(
+      { user: { name: "Ann", age: 30, nickname: undefined } },
+      { schema: userSchema },
+    );
+    const error = catchError(() =>
+      store.applyChanges([
+        { type: "property", path: "user.name", value: "Bob" },
+        { type: "property", path: "user.age", value: "thirty" },
+      ]),
+    );
+    expect(error.path).toBe("user.age");
+    expect(store.root.user.name).toBe("Ann");
+  });
+
+  it("should validate the objects a write under a missing parent creates", () => {
+    const schema = s.object({ parent: s.nullable(s.object({ id: s.number() })) });
+    const store = createStore<Infer<typeof schema>>({ parent: null }, { schema });
+    const error = catchError(() => store.applyChanges([{ type: "property", path: "parent.name", value: "x" }]));
+    expect(error.path).toBe("parent.id");
+    expect(store.root.parent).toBeNull();
+
+    store.applyChanges([{ type: "property", path: "parent.id", value: 2 }]);
+    expect(store.root.parent).toEqual({ id: 2 });
+  });
+
+  it("should validate decoded codec values", () => {
+    const schema = s.object({ at: s.date() });
+    const store = createStore<Infer<typeof schema>>({ at: new Date(0) }, { schema, codecs: [dateCodec] });
+    store.applyChanges([
+      { type: "property", path: "at", value: { $codec: "Date", value: "1970-01-01T00:00:01.000Z" } },
+    ]);
+    expect(store.root.at).toEqual(new Date(1000));
+    expect(catchError(() => store.applyChanges([{ type: "property", path: "at", value: 1000 }])).received).toBe(1000);
+  });
+
+  it("should validate forks against the schema at the forked path", () => {
+    const store = createStore<UserState>(
+      { user: { name: "Ann", age: 30, nickname: undefined } },
+      { schema: userSchema },
+    );
+    const fork = store.fork((root) => root.user);
+    expect(catchError(() => ((fork.root as { age: unknown }).age = "thirty")).path).toBe("age");
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect, vi } from "vitest";
+import { createStore, type Change, type ChangeMeta } from "../src/index";
+
+describe("store.scope", () => {
+  type Settings = { theme: string; fontSize: number; shortcuts: string[]; extra?: boolean };
+  type State = { title: string; settings: Settings };
+
+  it("should read and write the scoped object through root and apply", () => {
+    const store = createStore<{ settings: Settings }>({ settings: { theme: "light", fontSize: 12, shortcuts: ["a"] } });
+    const settings = store.scope((root) => root.settings);
+
+    expect(settings.root.theme).toBe("light");
+    settings.root.theme = "dark";
+    settings.apply((root) => {
+      root.fontSize = 14;
+      root.shortcuts.push("b");
+    });
+
+    expect(store.root.settings).toEqual({ theme: "dark", fontSize: 14, shortcuts: ["a", "b"] });
+    expect(settings.snapshot()).toEqual({ theme: "dark", fontSize: 14, shortcuts: ["a", "b"] });
+  });
+
+  it("should subscribe relative to the scope", () => {
+    const store = createStore<State>({ title: "app", settings: { theme: "light", fontSize: 12, shortcuts: ["a"] } });
+    const settings = store.scope((root) => root.settings);
+    const themes: string[] = [];
+    settings.subscribe(
+      (root) => root.theme,
+      (theme) => themes.push(theme),
+    );
+    const computed = settings.computed((root) => root.fontSize * 2);
+
+    store.root.title = "other";
+    store.root.settings.theme = "dark";
+    store.root.settings.fontSize = 20;
+
+    expect(themes).toEqual(["light", "dark"]);
+    expect(computed.value).toBe(40);
+  });
+
+  it("should emit only changes inside the scope, with relative paths", () => {
+    const store = createStore<State>({ title: "app", settings: { theme: "light", fontSize: 12, shortcuts: ["a"] } });
+    const settings = store.scope((root) => root.settings);
+    const batches: [Change[], ChangeMeta][] = [];
+    settings.subscribeToChanges((changes, meta) => batches.push([changes, meta]));
+
+    store.root.title = "other";
+    store.apply((root) => {
+      root.title = "again";
+      root.settings.theme = "dark";
+      root.settings.shortcuts.push("b");
+    });
+    store.applyChanges([{ type: "property", path: "settings.fontSize", value: 20 }]);
+
+    expect(batches).toEqual([
+      [
+        [
+          { type: "property", path: "theme", value: "dark" },
+          { type: "array", path: "shortcuts", method: "push", args: ["b"] },
+        ],
+        { source: "local" },
+      ],
+      [[{ type: "property", path: "fontSize", value: 20 }], { source: "remote" }],
+    ]);
+  });
+
+  it("should pass afterCommit to the parent, with relative paths", () => {
+    const store = createStore<State>({ title: "app", settings: { theme: "light", fontSize: 12, shortcuts: ["a"] } });
+    const settings = store.scope((root) => root.settings);
+    const committed = vi.fn();
+    settings.subscribeToChanges(committed, { afterCommit: true });
+    store.subscribeToChanges((changes) => {
+      if (changes.some((change) => change.type === "property" && change.value === "red")) throw new Error("rejected");
+    });
+
+    expect(() => (store.root.settings.theme = "red")).toThrow("rejected");
+    store.root.title = "other";
+    store.root.settings.theme = "dark";
+
+    expect(committed).toHaveBeenCalledTimes(1);
+    expect(committed).toHaveBeenCalledWith([{ type: "property", path: "theme", value: "dark" }], { source: "local" });
+  });
+
+  it("should map applyChanges back to the parent", () => {
+    const store = createStore<{ settings: Settings }>({ settings: { theme: "light", fontSize: 12, shortcuts: ["a"] } });
+    const settings = store.scope((root) => root.settings);
+    const batches: Change[][] = [];
+    store.subscribeToChanges((changes) => batches.push(changes));
+
+    settings.applyChanges([{ type: "array", path: "shortcuts", method: "push", args: ["z"] }]);
+    settings.applyJsonPatch([{ op: "replace", path: "/theme", value: "dark" }]);
+
+    expect(store.root.settings.shortcuts).toEqual(["a", "z"]);
+    expect(store.root.settings.theme).toBe("dark");
+    expect(batches).toEqual([
+      [{ type: "array", path: "settings.shortcuts", method: "push", args: ["z"] }],
+      [{ type: "property", path: "settings.theme", value: "dark" }],
+    ]);
+  });
+
+  it("should follow the scoped object when the parent replaces it", () => {
+    const store = createStore<{ settings: Settings }>({ settings: { theme: "light", fontSize: 12, shortcuts: ["a"] } });
+    const settings = store.scope((root) => root.settings);
+    const themes: string[] = [];
+    settings.subscribe(
+      (root) => root.theme,
+      (theme) => themes.push(theme),
+    );
+    const batches: Change[][] = [];
+    settings.subscribeToChanges((changes) => batches.push(changes));
+
+    store.root.settings = { theme: "dark", fontSize: 12, shortcuts: [], extra: true };
+
+    expect(settings.root.theme).toBe("dark");
+    expect(themes).toEqual(["light", "dark"]);
+    // The replacement is described as changes to the scope's keys
+    const replayed = createStore<Settings>({ theme: "light", fontSize: 12, shortcuts: ["a"] });
+    replayed.applyChanges(batches[0]!);
+    expect(replayed.snapshot()).toEqual({ theme: "dark", fontSize: 12, shortcuts: [], extra: true });
+
+    settings.root.theme = "blue";
+    expect(store.root.settings.theme).toBe("blue");
+
+    store.applyChanges([{ type: "property", path: "settings", value: { theme: "red", fontSize: 1, shortcuts: [] } }]);
+    replayed.applyChanges(batches[2]!);
+    expect(replayed.snapshot()).toEqual({ theme: "red", fontSize: 1, shortcuts: [] });
+  });
+
+  it("should scope into Map values", () => {
+    type Store = { teams: Map<string, { name: string }> };
+    const store = createStore<Store>({ teams: new Map([["core", { name: "Core" }]]) });
+    const team = store.scope((root) => root.teams.get("core")!);
+    const callback = vi.fn();
+    team.subscribeToChanges(callback);
+
+    team.root.name = "Platform";
+    store.root.teams.set("core", { name: "Core 2" });
+
+    expect(store.root.teams.get("core")!.name).toBe("Core 2");
+    expect(team.root.name).toBe("Core 2");
+    expect(callback.mock.calls.map(([changes]) => changes)).toEqual([
+      [{ type: "property", path: "name", value: "Platform" }],
+      [{ type: "property", path: "name", value: "Core 2" }],
+    ]);
+  });
+
+  it("should nest scopes", () => {
+    type Nested = { a: { b: { value: number } } };
+    const store = createStore<Nested>({ a: { b: { value: 1 } } });
+    const b = store.scope((root) => root.a).scope((a) => a.b);
+    const changes: Change[] = [];
+    b.subscribeToChanges((batch) => changes.push(...batch));
+
+    b.root.value = 2;
+    expect(store.root.a.b.value).toBe(2);
+    expect(changes).toEqual([{ type: "property", path: "value", value: 2 }]);
+  });
+
+  it("should run scoped middleware on changes inside the scope only", () => {
+    const store = createStore<State>({ title: "app", settings: { theme: "light", fontSize: 12, shortcuts: ["a"] } });
+    const settings = store.scope((root) => root.settings);
+    const seen: string[] = [];
+    settings.use((change, next) => {
+      seen.push(change.path);
+      next(change.type === "property" && change.path === "fontSize" ? { ...change, value: 10 } : change);
+    });
+
+    store.root.title = "other";
+    settings.root.fontSize = 99;
+
+    expect(seen).toEqual(["fontSize"]);
+    expect(store.root.settings.fontSize).toBe(10);
+  });
+
+  it("should throw when the scoped object is gone", () => {
+    const store = createStore<{ settings: Settings }>({ settings: { theme: "light", fontSize: 12, shortcuts: ["a"] } });
+    const settings = store.scope((root) => root.settings);
+    delete (store.root as { settings?: Settings }).settings;
+    expect(() => settings.root).toThrow('Scope "settings" no longer has an object to work on.');
+  });
+
+  it("should reject selectors that do not return a plain object from the state", () => {
+    const store = createStore<{ settings: Settings }>({ settings: { theme: "light", fontSize: 12, shortcuts: ["a"] } });
+    expect(() => store.scope((root) => root.settings.shortcuts)).toThrow(
+      "scope() selector must return a plain object from the state.",
+    );
+  });
+});
@@ -2,16 +2,22 @@ import { describe, it, expect } from "vitest";
 import { createStore } from "../src/index";
 
 describe("Non-serializable value rejection", () => {
-  it("should reject Map in initial value", () => {
+  it("should reject non-serializable values inside a Map", () => {
     expect(() => {
-      createStore<any>({ data: new Map() });
-    }).toThrow(/Non-serializable value of type "Map"/);
+      createStore<any>({ data: new Map([["a", new Date()]]) });
+    }).toThrow(/Non-serializable value of type "Date" at path "root.data.a"/);
   });
 
-  it("should reject Set in initial value", () => {
+  it("should reject object keys in a Map", () => {
     expect(() => {
-      createStore<any>({ data: new Set() });
-    }).toThrow(/Non-serializable value of type "Set"/);
+      createStore<any>({ data: new Map([[{}, 1]]) });
+    }).toThrow(/Unsupported Map key of type "object" at path "root.data"/);
+  });
+
+  it("should reject object members in a Set", () => {
+    expect(() => {
+      createStore<any>({ data: new Set([{}]) });
+    }).toThrow(/Unsupported Set member of type "object" at path "root.data"/);
   });
 
   it("should reject Date in initial value", () => {
@@ -52,28 +58,28 @@ describe("Non-serializable value rejection", () => {
 
   it("should reject deeply nested non-serializable values", () => {
     expect(() => {
-      createStore<any>({ a: { b: { c: new Map() } } });
-    }).toThrow(/Non-serializable value of type "Map" at path "root.a.b.c"/);
+      createStore<any>({ a: { b: { c: new WeakMap() } } });
+    }).toThrow(/Non-serializable value of type "WeakMap" at path "root.a.b.c"/);
   });
 
   it("should reject non-serializable values inside arrays", () => {
     expect(() => {
-      createStore<any>({ items: [1, 2, new Set()] });
-    }).toThrow(/Non-serializable value of type "Set" at path "root.items.2"/);
+      createStore<any>({ items: [1, 2, new WeakSet()] });
+    }).toThrow(/Non-serializable value of type "WeakSet" at path "root.items.2"/);
   });
 
-  it("should reject Map assigned via root proxy", () => {
+  it("should reject WeakMap assigned via root proxy", () => {
     const store = createStore<any>();
     expect(() => {
-      store.root.data = new Map();
-    }).toThrow(/Non-serializable value of type "Map"/);
+      store.root.data = new WeakMap();
+    }).toThrow(/Non-serializable value of type "WeakMap"/);
   });
 
-  it("should reject Set assigned to nested property", () => {
+  it("should reject WeakSet assigned to nested property", () => {
     const store = createStore<any>({ a: { b: 1 } });
     expect(() => {
-      store.root.a.b = new Set();
-    }).toThrow(/Non-serializable value of type "Set"/);
+      store.root.a.b = new WeakSet();
+    }).toThrow(/Non-serializable value of type "WeakSet"/);
   });
 
   it("should reject non-serializable objects assigned as nested objects", () => {
@@ -86,38 +92,38 @@ describe("Non-serializable value rejection", () => {
   it("should reject non-serializable values pushed to arrays", () => {
     const store = createStore<any>({ items: [1, 2, 3] });
     expect(() => {
-      store.root.items.push(new Map());
-    }).toThrow(/Non-serializable value of type "Map"/);
+      store.root.items.push(new WeakMap());
+    }).toThrow(/Non-serializable value of type "WeakMap"/);
   });
 
   it("should reject non-serializable values in array unshift", () => {
     const store = createStore<any>({ items: [1] });
     expect(() => {
-      store.root.items.unshift(new Set());
-    }).toThrow(/Non-serializable value of type "Set"/);
+      store.root.items.unshift(new WeakSet());
+    }).toThrow(/Non-serializable value of type "WeakSet"/);
   });
 
   it("should reject non-serializable values in array splice", () => {
     const store = createStore<any>({ items: [1, 2, 3] });
     expect(() => {
-      store.root.items.splice(1, 0, new Map());
-    }).toThrow(/Non-serializable value of type "Map"/);
+      store.root.items.splice(1, 0, new WeakMap());
+    }).toThrow(/Non-serializable value of type "WeakMap"/);
   });
 
   it("should reject non-serializable values via apply()", () => {
     const store = createStore<any>({ data: null });
     expect(() => {
       store.apply((root) => {
-        root.data = new Map();
+        root.data = new WeakMap();
       });
-    }).toThrow(/Non-serializable value of type "Map"/);
+    }).toThrow(/Non-serializable value of type "WeakMap"/);
   });
 
   it("should reject non-serializable values via applyChanges()", () => {
     const store = createStore<any>({ data: null });
     expect(() => {
-      store.applyChanges([{ type: "property", path: "data", value: new Set() }]);
-    }).toThrow(/Non-serializable value of type "Set"/);
+      store.applyChanges([{ type: "property", path: "data", value: new WeakSet() }]);
+    }).toThrow(/Non-serializable value of type "WeakSet"/);
   });
 
   it("should allow plain objects, arrays, and primitives", () => {
@@ -0,0 +1,207 @@
+import { describe, it, expect, vi } from "vitest";
+import { createStore, type Change, type ChangeMeta } from "../src/index";
+
+function recordBatches(store: { subscribeToChanges(callback: (changes: Change[], meta: ChangeMeta) => void): void }) {
+  const batches: [Change[], ChangeMeta][] = [];
+  store.subscribeToChanges((changes, meta) => batches.push([changes, meta]));
+  return batches;
+}
+
+describe("strict mode", () => {
+  it("should reject writes through root outside apply() and actions", () => {
+    type State = { count: number; todos: string[]; tags: Set<string>; owners: Map<string, string>; note?: string };
+    const store = createStore<State>(
+      { count: 0, todos: [], tags: new Set(), owners: new Map(), note: "n" },
+      { strict: true },
+    );
+
+    expect(() => (store.root.count = 1)).toThrow(
+      'Cannot write "count" outside apply() or an action: the store is in strict mode.',
+    );
+    expect(() => delete store.root.note).toThrow('Cannot write "note"');
+    expect(() => store.root.todos.push("a")).toThrow('Cannot write "todos"');
+    expect(() => store.root.tags.add("a")).toThrow('Cannot write "tags"');
+    expect(() => store.root.owners.delete("missing")).toThrow('Cannot write "owners"');
+    expect(store.snapshot()).toEqual({ count: 0, todos: [], tags: new Set(), owners: new Map(), note: "n" });
+
+    store.apply((root) => {
+      root.count = 1;
+      root.todos.push("a");
+    });
+    expect(store.root.count).toBe(1);
+    expect(store.root.todos).toEqual(["a"]);
+  });
+
+  it("should allow replayed changes and make forks strict too", () => {
+    const store = createStore<{ count: number }>({ count: 0 }, { strict: true });
+    store.applyChanges([{ type: "property", path: "count", value: 3 }]);
+    expect(store.root.count).toBe(3);
+
+    const fork = store.fork();
+    expect(() => (fork.root.count = 4)).toThrow('Cannot write "count"');
+    fork.apply((root) => (root.count = 4));
+    fork.merge();
+    expect(store.root.count).toBe(4);
+  });
+});
+
+describe("store.action", () => {
+  type State = { count: number; note?: string };
+
+  it("should batch the action's writes with its name and arguments", () => {
+    type Store = { count: number; todos: string[] };
+    const store = createStore<Store>({ count: 0, todos: [] }, { strict: true });
+    const batches = recordBatches(store);
+    const addTodo = store.action("addTodo", (title: string, _done: boolean) => {
+      store.root.todos.push(title);
+      store.root.count++;
+      return store.root.todos.length;
+    });
+
+    expect(addTodo("write tests", false)).toBe(1);
+    expect(batches).toEqual([
+      [
+        [
+          { type: "array", path: "todos", method: "push", args: ["write tests"] },
+          { type: "property", path: "count", value: 1 },
+        ],
+        { source: "local", action: { name: "addTodo", args: ["write tests", false] } },
+      ],
+    ]);
+  });
+
+  it("should join the outer batch when called inside apply() or another action", () => {
+    const store = createStore<State>({ count: 0 });
+    const batches = recordBatches(store);
+    const increment = store.action("increment", () => store.root.count++);
+    const incrementTwice = store.action("incrementTwice", () => {
+      increment();
+      increment();
+    });
+
+    incrementTwice();
+    store.apply(() => increment());
+
+    expect(batches.map(([changes, meta]) => [changes.length, meta])).toEqual([
+      [2, { source: "local", action: { name: "incrementTwice", args: [] } }],
+      [1, { source: "local" }],
+    ]);
+  });
+
+  it("should roll back the action's writes when it throws", () => {
+    const store = createStore<State>({ count: 0 }, { strict: true });
+    const callback = vi.fn();
+    store.subscribeToChanges(callback);
+    const fail = store.action("fail", () => {
+      store.root.count = 5;
+      throw new Error("nope");
+    });
+
+    expect(() => fail()).toThrow("nope");
+    expect(store.root.count).toBe(0);
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it("should batch the synchronous part and each run() of an async action", async () => {
+    type Store = { count: number; todos: string[] };
+    const store = createStore<Store>({ count: 0, todos: [] }, { strict: true });
+    const batches = recordBatches(store);
+    const counts: number[] = [];
+    store.subscribe(
+      (root) => root.count,
+      (count) => counts.push(count),
+    );
+    const load = store.asyncAction("load", async (run, ids: number[]) => {
+      store.root.count = 1;
+      store.root.count = 2;
+      await Promise.resolve();
+      run(() => {
+        store.root.count = 3;
+        store.root.todos.push(...ids.map(String));
+      });
+      await Promise.resolve();
+      return run(() => {
+        store.root.count = 4;
+        return "done";
+      });
+    });
+
+    await expect(load([1, 2])).resolves.toBe("done");
+
+    const meta = { source: "local", action: { name: "load", args: [[1, 2]] } };
+    expect(batches.map(([changes, batchMeta]) => [changes.length, batchMeta])).toEqual([
+      [2, meta],
+      [2, meta],
+      [1, meta],
+    ]);
+    expect(counts).toEqual([0, 2, 3, 4]);
+  });
+
+  it("should keep strict checks on while an async action is pending", async () => {
+    const store = createStore<State>({ count: 0, note: "n" }, { strict: true });
+    let resume!: () => void;
+    const save = store.asyncAction("save", async () => {
+      await new Promise<void>((resolve) => (resume = resolve));
+      store.root.count = 1;
+    });
+
+    const pending = save();
+    expect(() => (store.root.note = "stray")).toThrow('Cannot write "note"');
+    resume();
+    await expect(pending).rejects.toThrow('Cannot write "count"');
+    expect(store.snapshot()).toEqual({ count: 0, note: "n" });
+  });
+
+  it("should not attribute writes made elsewhere to a pending async action", async () => {
+    const store = createStore<State>({ count: 0, note: "n" });
+    const batches = recordBatches(store);
+    const save = store.asyncAction("save", async (run) => {
+      await Promise.resolve();
+      run(() => (store.root.count = 1));
+    });
+
+    const pending = save();
+    store.root.note = "elsewhere";
+    await pending;
+
+    expect(batches.map(([changes, meta]) => [changes, meta.action?.name])).toEqual([
+      [[{ type: "property", path: "note", value: "elsewhere" }], undefined],
+      [[{ type: "property", path: "count", value: 1 }], "save"],
+    ]);
+  });
+
+  it("should reject the action's promise and roll back the batch when a change subscriber throws", async () => {
+    const store = createStore<State>({ count: 0, note: "n" });
+    store.subscribeToChanges((changes) => {
+      if (changes.some((change) => change.type === "property" && change.value === 2)) throw new Error("rejected");
+    });
+    const update = store.asyncAction("update", async (run) => {
+      store.root.count = 1;
+      await Promise.resolve();
+      run(() => {
+        store.root.count = 2;
+        store.root.note = "changed";
+      });
+    });
+
+    await expect(update()).rejects.toThrow("rejected");
+    expect(store.root.count).toBe(1);
+    expect(store.root.note).toBe("n");
+  });
+
+  it("should work through scopes, with paths relative to the scope", () => {
+    const store = createStore<{ settings: { theme: string } }>({ settings: { theme: "light" } }, { strict: true });
+    const settings = store.scope((root) => root.settings);
+    const batches = recordBatches(settings);
+    const setTheme = settings.action("setTheme", (theme: string) => (settings.root.theme = theme));
+
+    expect(() => (settings.root.theme = "blue")).toThrow('Cannot write "settings.theme"');
+    setTheme("dark");
+    expect(batches).toEqual([
+      [
+        [{ type: "property", path: "theme", value: "dark" }],
+        { source: "local", action: { name: "setTheme", args: ["dark"] } },
+      ],
+    ]);
+  });
+});
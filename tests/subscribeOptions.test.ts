@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from "vitest";
+import { createStore, shallowEqual, deepEqual } from "../src/index";
+
+describe("subscribe options", () => {
+  type Todo = { title: string; done: boolean };
+  type Store = { todos: Todo[]; filter: { done: boolean } };
+
+  function setup() {
+    return createStore<Store>({
+      todos: [
+        { title: "a", done: true },
+        { title: "b", done: false },
+      ],
+      filter: { done: true },
+    });
+  }
+
+  it("should fire on every relevant change with the default equality", () => {
+    const store = setup();
+    const callback = vi.fn();
+
+    store.subscribe((root) => root.todos.filter((t) => t.done), callback);
+    callback.mockClear();
+
+    store.root.todos[1]!.title = "c";
+
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it("should skip callbacks when shallowEqual considers results equal", () => {
+    const store = setup();
+    const callback = vi.fn();
+
+    store.subscribe((root) => root.todos.filter((t) => t.done), callback, { equals: shallowEqual });
+    callback.mockClear();
+
+    store.root.todos[1]!.title = "c";
+    expect(callback).not.toHaveBeenCalled();
+
+    store.root.todos[1]!.done = true;
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it("should skip callbacks when deepEqual considers results equal", () => {
+    const store = setup();
+    const callback = vi.fn();
+
+    store.subscribe((root) => ({ ...root.filter }), callback, { equals: deepEqual });
+    callback.mockClear();
+
+    store.root.filter = { done: true };
+    expect(callback).not.toHaveBeenCalled();
+
+    store.root.filter.done = false;
+    expect(callback).toHaveBeenCalledWith({ done: false });
+  });
+
+  it("should still fire on trigger regardless of equality", () => {
+    const store = setup();
+    const callback = vi.fn();
+
+    store.subscribe((root) => root.filter.done, callback, { equals: () => true });
+    callback.mockClear();
+
+    store.trigger((root) => root.filter);
+
+    expect(callback).toHaveBeenCalledWith(true);
+  });
+
+  it("should not fire immediately when fireImmediately is false", () => {
+    const store = setup();
+    const callback = vi.fn();
+
+    store.subscribe((root) => root.filter.done, callback, { fireImmediately: false });
+    expect(callback).not.toHaveBeenCalled();
+
+    store.root.filter.done = false;
+    expect(callback).toHaveBeenCalledWith(false);
+  });
+
+  it("should unsubscribe after the first call in once mode", () => {
+    const store = setup();
+    const callback = vi.fn();
+
+    store.subscribe((root) => root.todos.length, callback, { once: true, fireImmediately: false });
+
+    store.root.todos.pop();
+    store.root.todos.pop();
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledWith(1);
+  });
+
+  it("should count the immediate call in once mode", () => {
+    const store = setup();
+    const callback = vi.fn();
+
+    store.subscribe((root) => root.todos.length, callback, { once: true });
+    store.root.todos.pop();
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledWith(2);
+  });
+});
+
+describe("equality helpers", () => {
+  it("shallowEqual should compare one level deep", () => {
+    const item = { a: 1 };
+    expect(shallowEqual([1, item], [1, item])).toBe(true);
+    expect(shallowEqual({ x: item }, { x: item })).toBe(true);
+    expect(shallowEqual([{ a: 1 }], [{ a: 1 }])).toBe(false);
+    expect(shallowEqual([1], { 0: 1 })).toBe(false);
+    expect(shallowEqual({ a: 1 }, { a: 1, b: 2 })).toBe(false);
+  });
+
+  it("deepEqual should compare structurally", () => {
+    expect(deepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(true);
+    expect(deepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 3 }] })).toBe(false);
+    expect(deepEqual(NaN, NaN)).toBe(true);
+    expect(deepEqual(null, {})).toBe(false);
+  });
+});
@@ -65,4 +65,26 @@ describe("subscribeToChanges", () => {
 
     expect(callback).not.toHaveBeenCalled();
   });
+
+  it("should call afterCommit subscribers only for committed batches", () => {
+    type Store = { x: number };
+    const store = createStore<Store>({ x: 1 });
+    const calls: string[] = [];
+    store.subscribeToChanges(() => calls.push("committed"), { afterCommit: true });
+    store.subscribeToChanges((changes) => {
+      calls.push("change");
+      if (changes.some((change) => change.type === "property" && change.value === 5)) throw new Error("rejected");
+    });
+    store.subscribe(
+      (root) => root.x,
+      () => calls.push("subscription"),
+      { fireImmediately: false },
+    );
+
+    expect(() => (store.root.x = 5)).toThrow("rejected");
+    store.apply((root) => (root.x = 2));
+
+    expect(calls).toEqual(["change", "change", "subscription", "committed"]);
+    expect(store.root.x).toBe(2);
+  });
 });
@@ -0,0 +1,197 @@
+import { MessageChannel } from "node:worker_threads";
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { createStore, syncStore, type Change, type StoreSync, type SyncEndpoint } from "../src/index";
+
+/** A hub that delivers every posted message to all other endpoints, like a BroadcastChannel. */
+function createHub() {
+  const listeners = new Map<SyncEndpoint, (event: { data: unknown }) => void>();
+  let dropNext = false;
+
+  function connect(): SyncEndpoint {
+    const endpoint: SyncEndpoint = {
+      postMessage(message) {
+        if (dropNext) {
+          dropNext = false;
+          return;
+        }
+        const data = structuredClone(message);
+        for (const [other, listener] of listeners) {
+          if (other !== endpoint) queueMicrotask(() => listener({ data }));
+        }
+      },
+      addEventListener: (_type, listener) => void listeners.set(endpoint, listener),
+      removeEventListener: () => void listeners.delete(endpoint),
+    };
+    return endpoint;
+  }
+
+  return {
+    connect,
+    dropNextMessage() {
+      dropNext = true;
+    },
+  };
+}
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("syncStore", () => {
+  type State = { count: number; items: string[]; tags: Set<string> };
+  type Counter = { count: number };
+  const syncs: StoreSync[] = [];
+  const track = (sync: StoreSync) => (syncs.push(sync), sync);
+
+  afterEach(() => {
+    syncs.splice(0).forEach((sync) => sync.dispose());
+  });
+
+  it("should hand the leader's state to a follower on connect", async () => {
+    const hub = createHub();
+    const leader = createStore<State>({ count: 5, items: ["a"], tags: new Set(["x"]) });
+    const follower = createStore<State>({ count: 0, items: [], tags: new Set() });
+    track(syncStore(leader, hub.connect(), { role: "leader" }));
+
+    const sync = track(syncStore(follower, hub.connect(), { role: "follower" }));
+    await sync.ready;
+
+    expect(follower.snapshot()).toEqual(leader.snapshot());
+  });
+
+  it("should forward changes in both directions", async () => {
+    const hub = createHub();
+    const leader = createStore<State>({ count: 0, items: [], tags: new Set() });
+    const followerA = createStore<State>({ count: 0, items: [], tags: new Set() });
+    const followerB = createStore<State>({ count: 0, items: [], tags: new Set() });
+    track(syncStore(leader, hub.connect(), { role: "leader" }));
+    await track(syncStore(followerA, hub.connect(), { role: "follower" })).ready;
+    await track(syncStore(followerB, hub.connect(), { role: "follower" })).ready;
+
+    leader.root.count = 1;
+    followerA.root.items.push("from A");
+    followerB.root.tags.add("from B");
+    await settle();
+
+    for (const store of [leader, followerA, followerB]) {
+      expect(store.snapshot()).toEqual({ count: 1, items: ["from A"], tags: new Set(["from B"]) });
+    }
+  });
+
+  it("should not re-apply or re-broadcast a follower's own changes", async () => {
+    type Store = { items: string[] };
+    const hub = createHub();
+    const leader = createStore<Store>({ items: [] });
+    const follower = createStore<Store>({ items: [] });
+    track(syncStore(leader, hub.connect(), { role: "leader" }));
+    await track(syncStore(follower, hub.connect(), { role: "follower" })).ready;
+    const leaderBatches = vi.fn();
+    const followerBatches = vi.fn();
+    leader.subscribeToChanges(leaderBatches);
+    follower.subscribeToChanges(followerBatches);
+
+    follower.root.items.push("once");
+    await settle();
+
+    expect(follower.root.items).toEqual(["once"]);
+    expect(leader.root.items).toEqual(["once"]);
+    expect(followerBatches).toHaveBeenCalledTimes(1);
+    expect(leaderBatches).toHaveBeenCalledTimes(1);
+  });
+
+  it("should neither broadcast nor submit batches a change subscriber rejects", async () => {
+    const reject = (changes: Change[]) => {
+      if (changes.some((change) => change.type === "property" && (change.value as number) < 0)) {
+        throw new Error("count must not be negative");
+      }
+    };
+    const hub = createHub();
+    const leader = createStore<Counter>({ count: 0 });
+    const follower = createStore<Counter>({ count: 0 });
+    const observer = createStore<Counter>({ count: 0 });
+    const followerEndpoint = hub.connect();
+    const posted = vi.spyOn(followerEndpoint, "postMessage");
+    track(syncStore(leader, hub.connect(), { role: "leader" }));
+    await track(syncStore(follower, followerEndpoint, { role: "follower" })).ready;
+    await track(syncStore(observer, hub.connect(), { role: "follower" })).ready;
+    leader.subscribeToChanges(reject);
+    follower.subscribeToChanges(reject);
+
+    expect(() => (leader.root.count = -5)).toThrow("count must not be negative");
+    expect(() => (follower.root.count = -2)).toThrow("count must not be negative");
+    await settle();
+
+    expect(observer.root.count).toBe(0);
+    expect(posted.mock.calls.filter(([message]) => (message as { type: string }).type === "submit")).toEqual([]);
+
+    follower.root.count = 3;
+    await settle();
+
+    for (const store of [leader, follower, observer]) expect(store.root.count).toBe(3);
+  });
+
+  it("should resync when a batch goes missing", async () => {
+    type Store = { count: number; items: string[] };
+    const hub = createHub();
+    const leader = createStore<Store>({ count: 0, items: [] });
+    const follower = createStore<Store>({ count: 0, items: [] });
+    track(syncStore(leader, hub.connect(), { role: "leader" }));
+    await track(syncStore(follower, hub.connect(), { role: "follower" })).ready;
+
+    hub.dropNextMessage();
+    leader.root.items.push("lost");
+    leader.root.count = 2;
+    await settle();
+
+    expect(follower.snapshot()).toEqual(leader.snapshot());
+  });
+
+  it("should converge to the leader's order when edits race", async () => {
+    const hub = createHub();
+    const leader = createStore<Counter>({ count: 0 });
+    const follower = createStore<Counter>({ count: 0 });
+    track(syncStore(leader, hub.connect(), { role: "leader" }));
+    await track(syncStore(follower, hub.connect(), { role: "follower" })).ready;
+
+    leader.root.count = 1;
+    follower.root.count = 2;
+    await settle();
+
+    expect(leader.root.count).toBe(2);
+    expect(follower.root.count).toBe(2);
+  });
+
+  it("should ignore messages for other channels", async () => {
+    const hub = createHub();
+    const leader = createStore<Counter>({ count: 0 });
+    const follower = createStore<Counter>({ count: 0 });
+    track(syncStore(leader, hub.connect(), { role: "leader", channel: "a" }));
+    const sync = track(syncStore(follower, hub.connect(), { role: "follower", channel: "b" }));
+
+    leader.root.count = 1;
+    await settle();
+
+    expect(follower.root.count).toBe(0);
+    sync.dispose();
+  });
+
+  it("should sync over a worker_threads MessageChannel", async () => {
+    const { port1, port2 } = new MessageChannel();
+    try {
+      const leader = createStore<Counter>({ count: 1 });
+      const follower = createStore<Counter>({ count: 0 });
+      track(syncStore(leader, port1, { role: "leader" }));
+      await track(syncStore(follower, port2, { role: "follower" })).ready;
+
+      follower.root.count = 3;
+      await vi.waitFor(() => expect(leader.root.count).toBe(3));
+    } finally {
+      port1.close();
+    }
+  });
+
+  it("should reject endpoints it cannot listen to", () => {
+    const store = createStore<Counter>({ count: 0 });
+    expect(() => syncStore(store, { postMessage() {} }, { role: "leader" })).toThrow(
+      "Sync endpoint must support addEventListener() or on() for message events.",
+    );
+  });
+});